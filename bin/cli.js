@@ -6,7 +6,7 @@ const chalk = require('chalk');
 const { dirname, resolve } = require('path');
 const meow = require('meow');
 const yaml = require('js-yaml');
-const { default: swaggerToTS } = require('../dist-node');
+const { default: swaggerToTS, bundle } = require('../dist-node');
 
 const cli = meow(
   `Usage
@@ -14,9 +14,22 @@ const cli = meow(
 
 Options
   --help                display this
-  --wrapper, -w         specify wrapper (default: "declare namespace OpenAPI2")
+  --wrapper, -w         specify wrapper (default: "declare namespace OpenAPI2", or "declare namespace OpenAPI3" for v3 specs)
   --output, -o          specify output file
   --camelcase, -c       convert snake_case properties to camelCase (default: off)
+  --type-names          "keep" type names as they are in the spec, or convert them to "pascal" case
+  --property-names      "keep" properties as they are in the spec, or convert them to "camel" case
+  --formats             JSON or YAML file mapping formats to TypeScript types, e.g. { "date-time": "Date | string" }
+  --brands              JSON or YAML file mapping formats to branded type names, e.g. { "uuid": "UUID" }
+  --objects             write objects as an "interface" or a "type" alias (default: "interface")
+  --immutable           mark properties and arrays readonly (default: off)
+  --input-types         write "…Input" variants of schemas, without readOnly properties, for request bodies (default: off)
+  --target              write TypeScript "types", or "zod" schemas (default: "types")
+  --converters          write functions converting objects to and from the API’s JSON (default: off)
+  --guards              write an "is…" type guard for every definition (default: off)
+  --mocks               write a "mock…" function returning sample data for every definition (default: off)
+  --client              write a typed fetch client with a function per operation (default: off)
+  --enums               write enums inline, or as a named "union", "enum" or "const" object (default: "inline")
   --nowrapper -nw       disables rendering the wrapper
   --no-warning          hides the warning at the top of the generated file (default: off)
 `,
@@ -27,9 +40,56 @@ Options
         default: false,
         alias: 'c',
       },
+      typeNames: {
+        type: 'string',
+      },
+      propertyNames: {
+        type: 'string',
+      },
+      target: {
+        type: 'string',
+        default: 'types',
+      },
+      converters: {
+        type: 'boolean',
+        default: false,
+      },
+      guards: {
+        type: 'boolean',
+        default: false,
+      },
+      mocks: {
+        type: 'boolean',
+        default: false,
+      },
+      client: {
+        type: 'boolean',
+        default: false,
+      },
+      enums: {
+        type: 'string',
+        default: 'inline',
+      },
+      objects: {
+        type: 'string',
+        default: 'interface',
+      },
+      immutable: {
+        type: 'boolean',
+        default: false,
+      },
+      inputTypes: {
+        type: 'boolean',
+        default: false,
+      },
+      formats: {
+        type: 'string',
+      },
+      brands: {
+        type: 'string',
+      },
       wrapper: {
         type: 'string',
-        default: 'declare namespace OpenAPI2',
         alias: 'w',
       },
       output: {
@@ -70,7 +130,8 @@ if (cli.flags.export === true) {
 
 // If input is a file, load it
 const pathname = resolve(process.cwd(), spec);
-if (existsSync(pathname)) {
+const isFile = existsSync(pathname);
+if (isFile) {
   spec = readFileSync(pathname, 'UTF-8');
 }
 
@@ -98,11 +159,43 @@ try {
   );
 }
 
+// Pull in $refs to other files, relative to the input
+try {
+  spec = bundle(spec, isFile ? pathname : undefined);
+} catch (e) {
+  console.error(chalk.red(`❌ ${e.message}`));
+  return;
+}
+
+// Load the format and brand mappings, if given
+for (const flag of ['formats', 'brands']) {
+  if (!cli.flags[flag]) {
+    continue;
+  }
+  try {
+    cli.flags[flag] = yaml.safeLoad(readFileSync(resolve(process.cwd(), cli.flags[flag]), 'UTF-8'));
+  } catch (e) {
+    console.error(
+      chalk.red(`❌ Could not load ${flag} from "${cli.flags[flag]}".
+  ${e}`)
+    );
+    return;
+  }
+}
+
 if (cli.flags.nowrapper) {
   cli.flags.wrapper = false;
 }
 
-const result = swaggerToTS(spec, cli.flags);
+cli.flags.naming = { types: cli.flags.typeNames, properties: cli.flags.propertyNames };
+
+let result;
+try {
+  result = swaggerToTS(spec, cli.flags);
+} catch (e) {
+  console.error(chalk.red(`❌ ${e.message}`));
+  return;
+}
 
 // Write to file if specifying output
 if (cli.flags.output) {
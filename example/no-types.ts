@@ -82,8 +82,42 @@ declare namespace OpenAPI2 {
     address: string;
     certifiedFee: number;
   }
+  /**
+   * A bool that to be returned indicating success/failure
+   */
+  export interface BoolResponse {
+    success?: boolean;
+  }
   export interface BillPayeePacket {
     payee?: string;
     accountNumber?: string;
   }
+  export interface paths {
+    '/status': {
+      /**
+       * Gets the operating status of the broker
+       */
+      get: {
+        parameters: Status.Params;
+        responses: {
+          200: Status.Response200;
+          405: Status.Response405;
+        };
+      };
+    };
+  }
+  /**
+   * Gets the operating status of the broker
+   */
+  export namespace Status {
+    export interface Params {}
+    /**
+     * Server status
+     */
+    export type Response200 = BrokerStatus;
+    /**
+     * Server Error
+     */
+    export type Response405 = unknown;
+  }
 }
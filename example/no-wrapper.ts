@@ -6,122 +6,185 @@
 export interface ValueProp {
   /**
    * Heading of a value proposition.
+   *
+   * @minLength 3
+   * @maxLength 80
    */
   header: string;
   /**
    * Body of a value proposition.
+   *
+   * @minLength 10
+   * @maxLength 500
    */
   body: string;
 }
 export interface UpdateProviderBody {
-  team_id?: string;
-  label?: string;
-  name?: string;
-  logo_url?: string;
-  support_email?: string;
-  documentation_url?: string;
+  team_id?: OptionalID;
+  label?: OptionalLabel;
+  name?: OptionalName;
+  logo_url?: OptionalLogoURL;
+  /**
+   * @format email
+   */
+  support_email?: string | null;
+  /**
+   * @format url
+   */
+  documentation_url?: string | null;
 }
 export interface UpdateProvider {
-  id: string;
+  id: ID;
   body: UpdateProviderBody;
 }
 export interface UpdateProductBody {
-  name?: string;
-  logo_url?: string;
-  listing?: ProductListing;
+  name?: Name | null;
+  logo_url?: LogoURL | null;
+  listing?: ProductListing | null;
   /**
    * 140 character sentence positioning the product.
+   *
+   * @maxLength 140
    */
-  tagline?: string;
+  tagline?: string | null;
   /**
    * A list of value propositions of the product.
    */
-  value_props?: ValueProp[];
-  images?: string[];
-  support_email?: string;
-  documentation_url?: string;
+  value_props?: ValueProp[] | null;
+  images?: ProductImageURL[] | null;
+  /**
+   * @format email
+   */
+  support_email?: string | null;
+  /**
+   * @format url
+   */
+  documentation_url?: string | null;
   /**
    * URL to this Product's Terms of Service. If provided is true, then
    * a url must be set. Otherwise, provided is false.
    */
-  terms_url?: string;
-  feature_types?: FeatureType[];
-  integration?: UpdateProductBodyIntegration;
-  tags?: string[];
+  terms_url?: string | null;
+  feature_types?: FeatureType[] | null;
+  integration?: UpdateProductBodyIntegration | null;
+  tags?: ProductTags;
 }
 export interface UpdateProductBodyIntegration {
-  provisioning?: string;
-  base_url?: string;
-  sso_url?: string;
-  version?: 'v1';
+  provisioning?: ProductProvisioning | null;
+  /**
+   * @format url
+   */
+  base_url?: string | null;
+  /**
+   * @format url
+   */
+  sso_url?: string | null;
+  version?: 'v1' | null;
   features?: ProductIntegrationFeatures;
 }
 export interface UpdateProduct {
-  id: string;
+  id: ID;
   body: UpdateProductBody;
 }
 export interface UpdatePlanBody {
-  name?: string;
-  label?: string;
-  state?: string;
+  name?: Name;
+  label?: Label;
+  state?: PlanState;
   /**
    * Used in conjuction with resizable_to to set or unset the list
    */
-  has_resize_constraints?: boolean;
-  resizable_to?: string[];
+  has_resize_constraints?: boolean | null;
+  resizable_to?: PlanResizeList;
   /**
    * Array of Region IDs
    */
-  regions?: string[];
+  regions?: ID[] | null;
   /**
    * Array of Feature Values
    */
-  features?: FeatureValue[];
+  features?: FeatureValue[] | null;
   /**
    * The number of days a user gets as a free trial when subscribing to
    * this plan. Trials are valid only once per product; changing plans
    * or adding an additional subscription will not start a new trial.
+   *
+   * @minimum 0
    */
-  trial_days?: number;
+  trial_days?: number | null;
   /**
    * Dollar value in cents
+   *
+   * @minimum 0
    */
-  cost?: number;
+  cost?: number | null;
 }
 export interface UpdatePlan {
-  id: string;
+  id: ID;
   body: UpdatePlanBody;
 }
 export interface RegionBody {
-  platform: string;
-  location: string;
+  platform: Platform;
+  location: Location;
   name: string;
+  /**
+   * @minimum 0
+   * @maximum 100
+   */
   priority: number;
 }
 export interface Region {
-  id: string;
+  id: ID;
   type: 'region';
   version: 1;
   body: RegionBody;
 }
 export interface ProviderBody {
-  team_id: string;
-  label: string;
-  name: string;
-  logo_url?: string;
+  team_id: ID;
+  label: Label;
+  name: Name;
+  logo_url?: LogoURL;
+  /**
+   * @format email
+   */
   support_email?: string;
+  /**
+   * @format url
+   */
   documentation_url?: string;
 }
 export interface Provider {
-  id: string;
+  id: ID;
   version: 1;
   type: 'provider';
   body: ProviderBody;
 }
+/**
+ * List of tags for product categorization and search
+ */
+export type ProductTags = Label[];
+export type ProductState =
+  | 'available'
+  | 'hidden'
+  | 'grandfathered'
+  | 'new'
+  | 'upcoming';
+/**
+ * Provider Only, implies that the product should only be provisionable by the
+ *   provider; so members of the provider team, no one else should be allowed.
+ * Pre-Order, should not be used yet. But in the future it should allow people to
+ *   pre-provision a resource for when it does go live.
+ * Public, means the resource is live and everyone should be able to provision it.
+ */
+export type ProductProvisioning = 'provider-only' | 'pre-order' | 'public';
+/**
+ * @default {}
+ */
 export interface ProductListing {
   /**
    * When true, everyone can see the product when requested. When false it will
    * not be visible to anyone except those on the provider team.
+   *
+   * @default false
    */
   public?: boolean;
   /**
@@ -130,6 +193,8 @@ export interface ProductListing {
    * but can still be provisioned directly if it's label is known.
    * Any pages that display information about the product when not listed,
    * should indicate to webcrawlers that the content should not be indexed.
+   *
+   * @default false
    */
   listed?: boolean;
   /**
@@ -137,6 +202,8 @@ export interface ProductListing {
    * that need to be stored, but should not affect decision making in code. If
    * we find ourselves in a position where we think they should, we should
    * consider refactoring our listing definition.
+   *
+   * @default {}
    */
   marketing?: ProductListingMarketing;
 }
@@ -145,21 +212,30 @@ export interface ProductListingMarketing {
    * Indicates whether or not the product is in `Beta` and should be
    * advertised as such. This does not have any impact on who can access the
    * product, it is just used to inform consumers through our clients.
+   *
+   * @default false
    */
   beta?: boolean;
   /**
    * Indicates whether or not the product is in `New` and should be
    * advertised as such. This does not have any impact on who can access the
    * product, it is just used to inform consumers through our clients.
+   *
+   * @default false
    */
   new?: boolean;
   /**
    * Indicates whether or not the product is in `New` and should be
    * advertised as such. This does not have any impact on who can access the
    * product, it is just used to inform consumers through our clients.
+   *
+   * @default false
    */
   featured?: boolean;
 }
+/**
+ * @default {}
+ */
 export interface ProductIntegrationFeatures {
   /**
    * Indicates whether or not this product supports resource transitions to
@@ -183,26 +259,43 @@ export interface ProductIntegrationFeatures {
    */
   region?: 'user-specified' | 'unspecified';
 }
+/**
+ * Image URL used for Product listings.
+ *
+ * Minimum 660px wide, 400px high.
+ *
+ * @format url
+ * @pattern ^https:\/\/cdn\.(?:stage\.)?manifold.co
+ */
+export type ProductImageURL = string;
 export interface ProductBody {
-  provider_id: string;
+  provider_id: ID;
   /**
    * Product labels are globally unique and contain the provider name.
    */
-  label: string;
-  name: string;
-  state: string;
+  label: Label;
+  name: Name;
+  state: ProductState;
   listing: ProductListing;
-  logo_url: string;
+  logo_url: LogoURL;
   /**
    * 140 character sentence positioning the product.
+   *
+   * @maxLength 140
    */
   tagline: string;
   /**
    * A list of value propositions of the product.
    */
   value_props: ValueProp[];
-  images: string[];
+  images: ProductImageURL[];
+  /**
+   * @format email
+   */
   support_email: string;
+  /**
+   * @format url
+   */
   documentation_url: string;
   /**
    * URL to this Product's Terms of Service. If provided is true, then
@@ -212,12 +305,18 @@ export interface ProductBody {
   feature_types: FeatureType[];
   billing: ProductBodyBilling;
   integration: ProductBodyIntegration;
-  tags?: string[];
+  tags?: ProductTags;
 }
 export interface ProductBodyIntegration {
-  provisioning: string;
+  provisioning: ProductProvisioning;
+  /**
+   * @format url
+   */
   base_url: string;
-  sso_url?: string;
+  /**
+   * @format url
+   */
+  sso_url?: string | null;
   version: 'v1';
   features: ProductIntegrationFeatures;
 }
@@ -226,26 +325,64 @@ export interface ProductBodyBilling {
   currency: 'usd';
 }
 export interface ProductBodyTerms {
-  url?: string;
+  /**
+   * @format url
+   */
+  url?: string | null;
   provided: boolean;
 }
 export interface Product {
-  id: string;
+  id: ID;
   version: 1;
   type: 'product';
   body: ProductBody;
 }
+/**
+ * Describes how a feature cost should be calculated. An empty
+ * string defaults to the normal price calculation using the value cost.
+ * Formula uses Reverse Polish notation for statements. It supports
+ * addition, subtraction and multiplication operations. Operations must be
+ * grouped with parenthesis.
+ * Number literals can be used for formulas. Eg: "(- feature-a#cost 500)"
+ * will remove 5 dollars from the cost of feature a.
+ * Multiplication operation supports either a cost multiplied by a
+ * factor or a number multiplied by a factor.
+ * In a plan formula the following keywords are available:
+ *   - `plan#base_cost` is the base cost of a plan in cents
+ *   - `plan#partial_cost` is the base cost plus its feature costs calculated
+ *     so far. Feature formulas are calculated in the order they are defined,
+ *     so features can refer to another feature values or the partial_cost of
+ *     the plan.
+ *   - `this-feature-label#multiply_factor` is the multiply_factor of this
+ *     feature as a float number.
+ *   - `another-feature-label#cost` is the cost of a feature matching the label
+ *     in cents.
+ *   - `another-feature-label#number` is the numeric value of a number feature
+ * In a feature formula, plan base cost and total cost cannot be used
+ */
+export type PriceFormula = string;
+/**
+ * A name of a platform which is used to provision resources.
+ *
+ * @pattern ^[a-z0-9][a-z0-9\-]{1,128}$
+ */
+export type Platform = string;
+export type PlanState = 'hidden' | 'available' | 'grandfathered' | 'unlisted';
+/**
+ * Array of Plan IDs that this Plan can be resized to, if null all will be assumed
+ */
+export type PlanResizeList = ID[] | null;
 export interface PlanBody {
-  provider_id: string;
-  product_id: string;
-  name: string;
-  label: string;
-  state: string;
-  resizable_to?: string[];
+  provider_id: ID;
+  product_id: ID;
+  name: Name;
+  label: Label;
+  state: PlanState;
+  resizable_to?: PlanResizeList;
   /**
    * Array of Region IDs
    */
-  regions: string[];
+  regions: ID[];
   /**
    * Array of Feature Values
    */
@@ -254,26 +391,110 @@ export interface PlanBody {
    * The number of days a user gets as a free trial when subscribing to
    * this plan. Trials are valid only once per product; changing plans
    * or adding an additional subscription will not start a new trial.
+   *
+   * @minimum 0
    */
   trial_days?: number;
   /**
    * Dollar value in cents.
+   *
+   * @minimum 0
    */
   cost: number;
 }
 export interface Plan {
-  id: string;
+  id: ID;
   version: 1;
   type: 'plan';
   body: PlanBody;
 }
+/**
+ * A name of an entity which is displayed to a human.
+ *
+ * @pattern ^[a-zA-Z0-9][a-z0-9A-Z\. \-_]{2,128}$
+ */
+export type OptionalName = string | null;
+/**
+ * Logo used for Provider and Product listings.
+ *
+ * Must be square (same width and height) and minimum 400px. Maximum of 800px.
+ *
+ * @format url
+ * @pattern ^https:\/\/cdn\.(?:stage\.)?manifold.co
+ */
+export type OptionalLogoURL = string | null;
+/**
+ * A machine readable unique label, which is url safe.
+ *
+ * @pattern ^[a-z0-9][a-z0-9\-\_]{1,128}$
+ */
+export type OptionalLabel = string | null;
+/**
+ * A base32 encoded 18 byte identifier.
+ *
+ * @format base32ID
+ * @pattern ^[0-9abcdefghjkmnpqrtuvwxyz]{29}$
+ */
+export type OptionalID = string | null;
+/**
+ * A name of an entity which is displayed to a human.
+ *
+ * @pattern ^[a-zA-Z0-9][a-z0-9A-Z\. \-_]{2,128}$
+ */
+export type Name = string;
+/**
+ * Logo used for Provider and Product listings.
+ *
+ * Must be square (same width and height) and minimum 400px. Maximum of 800px.
+ *
+ * @format url
+ * @pattern ^https:\/\/cdn\.(?:stage\.)?manifold.co
+ */
+export type LogoURL = string;
+/**
+ * A location of where a potential resource can be provisioned.
+ *
+ * @pattern ^[a-z0-9][a-z0-9\-]{1,128}$
+ */
+export type Location = string;
+/**
+ * A machine readable unique label, which is url safe.
+ *
+ * @pattern ^[a-z0-9][a-z0-9\-\_]{1,128}$
+ */
+export type Label = string;
+/**
+ * A base32 encoded 18 byte identifier.
+ *
+ * @format base32ID
+ * @pattern ^[0-9abcdefghjkmnpqrtuvwxyz]{29}$
+ */
+export type ID = string;
+/**
+ * A list of allowable values for the feature.
+ * To define values for a boolean feature type, only `true` is required,
+ * using the label `true`, name and numeric_details will be ignored.
+ * If the feature is set measurable it is expected that these all have a
+ * `numeric_details` definition, and the plan will determine which
+ * `numeric_details` set is used based on it's setting.
+ */
+export type FeatureValuesList = FeatureValueDetails[] | null;
+/**
+ * A machine readable unique label, which is url safe.
+ *
+ * @pattern ^[a-z0-9][a-z0-9-_\.]{1,128}$
+ */
+export type FeatureValueLabel = string;
 export interface FeatureValueDetails {
-  label: string;
-  name: string;
+  label: FeatureValueLabel;
+  name: Name;
   /**
    * The cost that will be added to the monthly plan cost when this value
    * is selected or is default for the plan.
    * Cost is deprecated in favor of the `price.cost` field.
+   *
+   * @default 0
+   * @minimum 0
    */
   cost?: number;
   /**
@@ -288,53 +509,73 @@ export interface FeatureValueDetailsPrice {
    * Cost is the price in cents that will be added to plan's base cost
    * when this value is selected or is default for the plan.
    * Number features should use the cost range instead.
+   *
+   * @default 0
+   * @minimum 0
    */
   cost?: number;
   /**
    * When a feature is used to multiply the cost of the plan or of
    * another feature, multiply factor is used for calculation.
    * A feature cannot have both a cost and a multiply factor.
+   *
+   * @default 0
+   * @minimum 0
    */
   multiply_factor?: number;
   /**
    * Price describes how the feature cost should be calculated.
+   *
+   * @example {"feature_multiplies_base_cost":"(* plan#base_cost feature-a#multiply_factor)","feature_multiplies_feature_cost":"(* feature-b#cost feature-a#multiply_factor)","feature_multiplies_numeric_value":"(* feature-c#number feature-a#multiply_factor)","feature_multiplies_total_cost":"(* plan#total_cost feature-a#multiply_factor)","feature_nested_formulas":"(+ (- (* feature-a#cost feature-b#multiply_factor) 500) plan#partial_cost)"}
    */
-  formula?: string;
+  formula?: PriceFormula;
   /**
    * Description explains how a feature is calculated to the user.
    */
   description?: string;
 }
 export interface FeatureValue {
-  feature: string;
-  value: string;
+  feature: Label;
+  value: FeatureValueLabel;
 }
+/**
+ * A feature type represents the different aspects of a product that are
+ * offered, these features can manifest differently depending on the plan.
+ */
 export interface FeatureType {
-  label: string;
-  name: string;
+  label: Label;
+  name: Name;
   type: 'boolean' | 'string' | 'number';
   /**
    * This sets whether or not the feature can be customized by a consumer.
+   *
+   * @default false
    */
   customizable?: boolean;
   /**
    * This sets whether or not the feature can be upgraded by the consumer after the
    * resource has provisioned. Upgrading means setting a higher value or selecting a
    * higher element in the list.
+   *
+   * @default false
    */
   upgradable?: boolean;
   /**
    * This sets whether or not the feature can be downgraded by the consumer after the
    * resource has provisioned. Downgrading means setting a lower value or selecting a
    * lower element in the list.
+   *
+   * @default false
    */
   downgradable?: boolean;
   /**
    * Sets if this feature’s value is trackable from the provider,
    * this only really affects numeric constraints.
+   *
+   * @default false
    */
   measurable?: boolean;
-  values?: FeatureValueDetails[];
+  values?: FeatureValuesList;
 }
 export interface FeatureNumericRange {
   /**
@@ -342,14 +583,23 @@ export interface FeatureNumericRange {
    * where the cost_multiple starts taking effect. If set to -1 this defines the
    * range to infinity, or the maximum integer the system can handle
    * ( whichever comes first ).
+   *
+   * @minimum -1
    */
   limit?: number;
   /**
    * An integer in 10,000,000ths of cents, will be multiplied by the
    * numeric value set in the feature to determine the cost.
+   *
+   * @default 0
+   * @minimum 0
    */
   cost_multiple?: number;
 }
+/**
+ * Optional container for additional details relating to numeric features.
+ * This is required if the feature is measurable and numeric.
+ */
 export interface FeatureNumericDetails {
   /**
    * Sets the increment at which numbers can be selected if customizable, by
@@ -358,27 +608,38 @@ export interface FeatureNumericDetails {
    * feature is measurable; except if it is set to 0, setting the increment to 0
    * means this numeric details has no scale, and will not be or customizable.
    * Some plans may not have a measureable or customizable feature.
+   *
+   * @default 1
+   * @minimum 0
    */
   increment?: number;
   /**
    * Minimum value that can be set by a user if customizable
+   *
+   * @default 0
+   * @minimum 0
    */
   min?: number;
   /**
    * Maximum value that can be set by a user if customizable
+   *
+   * @minimum 1
    */
-  max?: number;
+  max?: number | null;
   /**
    * Applied to the end of the number for display, for example the ‘GB’ in ‘20 GB’.
    */
-  suffix?: string;
-  cost_ranges?: FeatureNumericRange[];
+  suffix?: string | null;
+  cost_ranges?: FeatureNumericRange[] | null;
 }
+/**
+ * A map of feature labels to selected values for customizable features
+ */
 export interface FeatureMap {
   [key: string]: any;
 }
 export interface ExpandedProduct {
-  id: string;
+  id: ID;
   version: 1;
   type: 'product';
   body: ProductBody;
@@ -389,11 +650,11 @@ export interface ExpandedPlanBody extends PlanBody {
   /**
    * An array of feature definitions for the plan, as defined on the Product.
    */
-  expanded_features?: ExpandedFeature[];
+  expanded_features: ExpandedFeature[];
   /**
    * A boolean flag that indicates if a plan is free or not based on it's cost and features.
    */
-  free?: boolean;
+  free: boolean;
   /**
    * Plan cost using its default features plus base cost.
    */
@@ -404,7 +665,7 @@ export interface ExpandedPlanBody extends PlanBody {
   customizable?: boolean;
 }
 export interface ExpandedPlan {
-  id: string;
+  id: ID;
   version: 1;
   type: 'plan';
   body: ExpandedPlanBody;
@@ -413,9 +674,12 @@ export interface ExpandedFeature extends FeatureType {
   /**
    * The string value set for the feature on the plan, this should only be used if the value property is null.
    */
-  value_string?: string;
-  value?: FeatureValueDetails;
+  value_string: string;
+  value: FeatureValueDetails;
 }
+/**
+ * Unexpected error
+ */
 export interface Error {
   /**
    * The error type
@@ -426,6 +690,10 @@ export interface Error {
    */
   message: string[];
 }
+/**
+ * Map of configuration variable names to values. Names must match
+ * `^[a-zA-Z][a-zA-Z0-9_]{0,999}$`.
+ */
 export interface Credentials {
   [key: string]: string;
 }
@@ -441,3 +709,550 @@ export interface CreateProduct {
 export interface CreatePlan {
   body: PlanBody;
 }
+export interface paths {
+  '/regions/': {
+    /**
+     * List all available regions
+     */
+    get: {
+      parameters: {
+        query?: {
+          /**
+           * Filter results to only include the regions that have this location.
+           */
+          location?: string;
+          /**
+           * Filter results to only include the regions that are on this
+           * platform.
+           */
+          platform?: string;
+        };
+      };
+      responses: {
+        /**
+         * A list of regions.
+         */
+        200: Region[];
+        /**
+         * Unexpected Error
+         */
+        500: Error;
+      };
+    };
+    /**
+     * Add a new region
+     */
+    post: {
+      parameters: {
+        /**
+         * Region create request
+         */
+        body: CreateRegion;
+      };
+      responses: {
+        /**
+         * Complete region object
+         */
+        201: Region;
+        /**
+         * Invalid request provided
+         */
+        400: Error;
+        /**
+         * Region already exists for that platform and location
+         */
+        409: Error;
+        /**
+         * Unexpected Error
+         */
+        500: Error;
+      };
+    };
+  };
+  '/regions/{id}': {
+    /**
+     * Get a Region by ID
+     */
+    get: {
+      parameters: {
+        path: {
+          /**
+           * ID of the region to lookup, stored as a base32 encoded 18 byte identifier.
+           */
+          id: string;
+        };
+      };
+      responses: {
+        /**
+         * A region.
+         */
+        200: Region;
+        /**
+         * Provided Region ID is Invalid
+         */
+        400: Error;
+        /**
+         * Region could not be found
+         */
+        404: Error;
+        /**
+         * Unexpected Error
+         */
+        500: Error;
+      };
+    };
+  };
+  '/providers/': {
+    /**
+     * List all available providers
+     */
+    get: {
+      parameters: {
+        query?: {
+          /**
+           * Filter results to only include those that have this label.
+           */
+          label?: string;
+        };
+      };
+      responses: {
+        /**
+         * A list of providers.
+         */
+        200: Provider[];
+        /**
+         * Unexpected Error
+         */
+        500: Error;
+      };
+    };
+    /**
+     * Add a new provider
+     */
+    post: {
+      parameters: {
+        /**
+         * Provider create request
+         */
+        body: CreateProvider;
+      };
+      responses: {
+        /**
+         * Complete provider object
+         */
+        201: Provider;
+        /**
+         * Invalid request provided
+         */
+        400: Error;
+        /**
+         * Forbidden
+         */
+        403: Error;
+        /**
+         * Provider already exists with that label
+         */
+        409: Error;
+        /**
+         * Unexpected Error
+         */
+        500: Error;
+      };
+    };
+  };
+  '/providers/{id}': {
+    /**
+     * Get a provider by ID
+     */
+    get: {
+      parameters: {
+        path: {
+          /**
+           * ID of the provider to lookup, stored as a base32 encoded 18 byte identifier.
+           */
+          id: string;
+        };
+      };
+      responses: {
+        /**
+         * A provider.
+         */
+        200: Provider;
+        /**
+         * Unknown provider error
+         */
+        404: Error;
+        /**
+         * Unexpected Error
+         */
+        500: Error;
+      };
+    };
+    /**
+     * Update a provider
+     */
+    patch: {
+      parameters: {
+        path: {
+          /**
+           * ID of the provider to update, stored as a base32 encoded 18 byte identifier.
+           */
+          id: string;
+        };
+        /**
+         * Provider update request
+         */
+        body: UpdateProvider;
+      };
+      responses: {
+        /**
+         * Complete provider object
+         */
+        200: Provider;
+        /**
+         * Invalid request provided
+         */
+        400: Error;
+        /**
+         * Forbidden
+         */
+        403: Error;
+        /**
+         * Provider not found
+         */
+        404: Error;
+        /**
+         * Provider already exists with that label
+         */
+        409: Error;
+        /**
+         * Unexpected Error
+         */
+        500: Error;
+      };
+    };
+  };
+  '/products/': {
+    /**
+     * List all available products
+     */
+    get: {
+      parameters: {
+        query?: {
+          /**
+           * Base32 encoded 18 byte identifier of the provider that these
+           * products must belong to.
+           */
+          provider_id?: string;
+          /**
+           * Filter results to only include those that have this label.
+           */
+          label?: string;
+          /**
+           * Return only products matching at least one of the tags.
+           */
+          tags?: string[];
+        };
+      };
+      responses: {
+        /**
+         * A product.
+         */
+        200: Product[];
+        /**
+         * Invalid provider_id supplied
+         */
+        400: Error;
+        /**
+         * Unexpected Error
+         */
+        500: Error;
+      };
+    };
+    /**
+     * Add a new product
+     */
+    post: {
+      parameters: {
+        /**
+         * Product create request
+         */
+        body: CreateProduct;
+      };
+      responses: {
+        /**
+         * Complete product object
+         */
+        201: Product;
+        /**
+         * Invalid request provided
+         */
+        400: Error;
+        /**
+         * Forbidden
+         */
+        403: Error;
+        /**
+         * Product already exists with that label
+         */
+        409: Error;
+        /**
+         * Unexpected Error
+         */
+        500: Error;
+      };
+    };
+  };
+  '/internal/products': {
+    /**
+     * Get products and associated information
+     */
+    get: {
+      parameters: {
+        query?: {
+          /**
+           * Base32 encoded 18 byte identifier of the provider that these
+           * products must belong to.
+           */
+          provider_id?: string;
+          /**
+           * Filter results to only include those that have this label.
+           */
+          label?: string;
+          /**
+           * Return only products matching at least one of the tags.
+           */
+          tags?: string[];
+          /**
+           * Return product listings without plan information
+           */
+          include_plans?: boolean;
+        };
+      };
+      responses: {
+        /**
+         * A product.
+         */
+        200: ExpandedProduct[];
+        /**
+         * Invalid provider_id supplied
+         */
+        400: Error;
+        /**
+         * Unexpected Error
+         */
+        500: Error;
+      };
+    };
+  };
+  '/products/{id}': {
+    /**
+     * Get a product by ID
+     */
+    get: {
+      parameters: {
+        path: {
+          /**
+           * ID of the product to lookup, stored as a base32 encoded 18 byte
+           * identifier.
+           */
+          id: string;
+        };
+      };
+      responses: {
+        /**
+         * A product.
+         */
+        200: Product;
+        /**
+         * Invalid Product ID
+         */
+        400: Error;
+        /**
+         * Product not found error
+         */
+        404: Error;
+        /**
+         * Unexpected error
+         */
+        500: Error;
+      };
+    };
+    /**
+     * Update a product
+     */
+    patch: {
+      parameters: {
+        path: {
+          /**
+           * ID of the product to lookup, stored as a base32 encoded 18 byte
+           * identifier.
+           */
+          id: string;
+        };
+        /**
+         * Product update request
+         */
+        body: UpdateProduct;
+      };
+      responses: {
+        /**
+         * Complete product object
+         */
+        200: Product;
+        /**
+         * Invalid Product ID
+         */
+        400: Error;
+        /**
+         * Product not found error
+         */
+        404: Error;
+        /**
+         * Unexpected error
+         */
+        500: Error;
+      };
+    };
+  };
+  '/plans/{id}': {
+    /**
+     * Get a plan by ID
+     */
+    get: {
+      parameters: {
+        path: {
+          /**
+           * ID of the plan to lookup, stored as a base32 encoded 18 byte
+           * identifier.
+           */
+          id: string;
+        };
+      };
+      responses: {
+        /**
+         * A plan.
+         */
+        200: ExpandedPlan;
+        /**
+         * Invalid Plan ID Provided
+         */
+        400: Error;
+        /**
+         * Unknown plan error
+         */
+        404: Error;
+        /**
+         * Unexpected error
+         */
+        default: Error;
+      };
+    };
+    /**
+     * Update a plan
+     */
+    patch: {
+      parameters: {
+        path: {
+          /**
+           * ID of the plan to lookup, stored as a base32 encoded 18 byte
+           * identifier.
+           */
+          id: string;
+        };
+        /**
+         * Plan update request
+         */
+        body: UpdatePlan;
+      };
+      responses: {
+        /**
+         * Complete product plan
+         */
+        200: Plan;
+        /**
+         * Invalid Plan ID
+         */
+        400: Error;
+        /**
+         * Plan not found error
+         */
+        404: Error;
+        /**
+         * Unexpected error
+         */
+        500: Error;
+      };
+    };
+  };
+  '/plans/': {
+    /**
+     * Get a list of plans.
+     */
+    get: {
+      parameters: {
+        query: {
+          /**
+           * Return the plans that are associated with this product.
+           */
+          product_id: string[];
+          /**
+           * Filter results to only include those that have this label.
+           */
+          label?: string;
+        };
+      };
+      responses: {
+        /**
+         * A list of plans for the given product.
+         */
+        200: ExpandedPlan[];
+        /**
+         * Invalid Parameters Provided
+         */
+        400: Error;
+        /**
+         * Could not find product
+         */
+        404: Error;
+        /**
+         * Unexpected error
+         */
+        500: Error;
+      };
+    };
+    /**
+     * Add a new plan
+     */
+    post: {
+      parameters: {
+        /**
+         * Plan create request
+         */
+        body: CreatePlan;
+      };
+      responses: {
+        /**
+         * Complete plan object
+         */
+        201: Plan;
+        /**
+         * Invalid request provided
+         */
+        400: Error;
+        /**
+         * Forbidden
+         */
+        403: Error;
+        /**
+         * Plan already exists with that label
+         */
+        409: Error;
+        /**
+         * Unexpected Error
+         */
+        500: Error;
+      };
+    };
+  };
+}
@@ -0,0 +1,128 @@
+import { readFileSync } from 'fs';
+import * as yaml from 'js-yaml';
+import { basename, dirname, extname, resolve } from 'path';
+import { parsePointer, resolvePointer } from './utils';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Node = any;
+
+function loadFile(filename: string): Node {
+  const contents = readFileSync(filename, 'UTF-8');
+  try {
+    return /\.json$/i.test(filename) ? JSON.parse(contents) : yaml.safeLoad(contents);
+  } catch (err) {
+    throw new Error(`Could not parse ${filename}: ${err.message}`);
+  }
+}
+
+/**
+ * Inlines $refs to other files so the result can be handed to swaggerToTS(). Schemas from other
+ * files’ `definitions` (or `components.schemas`), and whole files, are copied into the spec’s own
+ * definitions, keeping their names; anything else (parameters, responses, fragments of schemas) is
+ * copied in place. Relative paths are resolved from `filename`, the location of the spec itself.
+ */
+export default function bundle<T extends object>(spec: T, filename?: string): T {
+  const rootFile = filename ? resolve(filename) : resolve(process.cwd(), 'index');
+  const root: Node = spec;
+  const isV3 = typeof root.openapi === 'string';
+  const refPrefix = isV3 ? '#/components/schemas/' : '#/definitions/';
+  const definitions: { [index: string]: Node } =
+    (isV3 ? root.components && root.components.schemas : root.definitions) || {};
+
+  const cache: { [filename: string]: Node } = {};
+  const bundled: { [index: string]: Node } = {}; // schemas copied in from other files
+  const hoisted: { [location: string]: string } = {}; // file#pointer -> local $ref
+  const inlining: string[] = []; // stack of file#pointer, to catch circular inlined refs
+
+  function load(file: string): Node {
+    if (!cache[file]) {
+      cache[file] = loadFile(file);
+    }
+    return cache[file];
+  }
+
+  function getName(file: string, tokens: string[]): string {
+    const name = tokens.length ? tokens[tokens.length - 1] : basename(file, extname(file));
+    let uniqueName = name;
+    let i = 2;
+    while (definitions[uniqueName] || bundled[uniqueName]) {
+      uniqueName = `${name}${i}`;
+      i += 1;
+    }
+    return uniqueName;
+  }
+
+  function walk(node: Node, file: string): Node {
+    if (Array.isArray(node)) {
+      return node.map((item) => walk(item, file));
+    }
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+
+    const { $ref, ...rest } = node;
+    if (typeof $ref !== 'string') {
+      const next: Node = {};
+      Object.entries(node).forEach(([key, value]): void => {
+        next[key] = walk(value, file);
+      });
+      return next;
+    }
+
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test($ref)) {
+      throw new Error(`Remote $refs are not supported: ${$ref}`);
+    }
+    const [path, pointer = ''] = $ref.split('#');
+    const target = path ? resolve(dirname(file), path) : file;
+
+    // Already local to the root spec
+    if (target === rootFile) {
+      return { ...walk(rest, file), $ref: `#${pointer}` };
+    }
+
+    const location = `${target}#${pointer}`;
+    if (hoisted[location]) {
+      return { ...walk(rest, file), $ref: hoisted[location] };
+    }
+
+    let value: Node;
+    try {
+      value = resolvePointer(load(target), `#${pointer}`);
+    } catch (err) {
+      throw new Error(`${err.message} in ${target}`);
+    }
+
+    // Schemas are hoisted into the root definitions (registered first, so cycles end up as $refs)
+    const tokens = parsePointer(`#${pointer}`);
+    const isSchema =
+      !tokens.length ||
+      (tokens.length === 2 && tokens[0] === 'definitions') ||
+      (tokens.length === 3 && tokens[0] === 'components' && tokens[1] === 'schemas');
+    if (isSchema) {
+      const name = getName(target, tokens);
+      hoisted[location] = `${refPrefix}${name.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+      bundled[name] = {};
+      bundled[name] = walk(value, target);
+      return { ...walk(rest, file), $ref: hoisted[location] };
+    }
+
+    if (inlining.indexOf(location) !== -1) {
+      throw new Error(`Circular $ref: ${[...inlining, location].join(' -> ')}`);
+    }
+    inlining.push(location);
+    const inlined = walk(value, target);
+    inlining.pop();
+    return { ...inlined, ...walk(rest, file) };
+  }
+
+  const result = walk(root, rootFile);
+  if (Object.keys(bundled).length) {
+    if (isV3) {
+      result.components = result.components || {};
+      result.components.schemas = { ...result.components.schemas, ...bundled };
+    } else {
+      result.definitions = { ...result.definitions, ...bundled };
+    }
+  }
+  return result;
+}
@@ -0,0 +1,170 @@
+import { GeneratorContext } from './swagger-2';
+import { capitalize, getUniqueName, sanitize } from './utils';
+
+// Names the client writes, which types can’t take
+export const CLIENT_NAMES = ['ClientError', 'ClientOptions', 'Fetch'];
+
+// Written once for the client option, before createClient(). `Fetch` is the part of the standard
+// fetch() signature the client uses, so fetch (or a stub) can be passed in as it is.
+const CLIENT_HELPERS = `export type Fetch = (
+  url: string,
+  init: { method: string; headers: { [name: string]: string }; body?: string }
+) => Promise<{ status: number; text(): Promise<string> }>;
+
+export interface ClientOptions {
+  baseUrl: string;
+  fetch?: Fetch;
+  headers?: { [name: string]: string };
+}
+
+export class ClientError extends Error {
+  status: number;
+  body: unknown;
+  constructor(status: number, body: unknown) {
+    super(\`Request failed with status \${status}\`);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// Query strings, form bodies and cookies, with arrays written as their collectionFormat says
+function encodeParams(
+  params: object = {},
+  formats: { [name: string]: string } = {},
+  separator = '&'
+): string {
+  const separators: { [format: string]: string } = { csv: ',', pipes: '|', ssv: ' ', tsv: '\\t' };
+  const values = params as { [name: string]: unknown };
+  const pairs: string[] = [];
+  Object.keys(values).forEach((name) => {
+    const value = values[name];
+    if (value === undefined || value === null) {
+      return;
+    }
+    let items: unknown[] = [value];
+    if (Array.isArray(value)) {
+      items = formats[name] === 'multi' ? value : [value.join(separators[formats[name]] || ',')];
+    }
+    items.forEach((item) => {
+      pairs.push(\`\${encodeURIComponent(name)}=\${encodeURIComponent(String(item))}\`);
+    });
+  });
+  return pairs.join(separator);
+}`;
+
+// The request() every client function goes through: fills in the path, adds the query string,
+// headers (cookies included) and body, and resolves with the parsed response, or rejects with a
+// ClientError
+const CLIENT_REQUEST = `async function request<T>(
+  method: string,
+  path: string,
+  params: {
+    path?: object;
+    query?: object;
+    header?: object;
+    cookie?: object;
+    formData?: object;
+    body?: unknown;
+  } = {},
+  formats: { [name: string]: string } = {}
+): Promise<T> {
+  const pathParams = (params.path || {}) as { [name: string]: unknown };
+  const url = \`\${baseUrl.replace(/\\/$/, '')}\${path.replace(/{([^}]+)}/g, (_, name: string) =>
+    encodeURIComponent(String(pathParams[name]))
+  )}\`;
+  const query = encodeParams(params.query, formats);
+  const requestHeaders: { [name: string]: string } = { ...headers };
+  const headerParams = (params.header || {}) as { [name: string]: unknown };
+  Object.keys(headerParams).forEach((name) => {
+    requestHeaders[name] = String(headerParams[name]);
+  });
+  const cookies = encodeParams(params.cookie, formats, '; ');
+  if (cookies) {
+    const { Cookie } = requestHeaders;
+    requestHeaders.Cookie = Cookie ? \`\${Cookie}; \${cookies}\` : cookies;
+  }
+  let body: string | undefined;
+  if (params.body !== undefined) {
+    body = JSON.stringify(params.body);
+    requestHeaders['Content-Type'] = 'application/json';
+  } else if (params.formData) {
+    body = encodeParams(params.formData, formats);
+    requestHeaders['Content-Type'] = 'application/x-www-form-urlencoded';
+  }
+
+  const response = await fetch(query ? \`\${url}?\${query}\` : url, {
+    method: method.toUpperCase(),
+    headers: requestHeaders,
+    body,
+  });
+  const text = await response.text();
+  let data: unknown = text;
+  try {
+    data = text ? JSON.parse(text) : undefined;
+  } catch (err) {
+    // not JSON, so it’s returned as text
+  }
+  if (response.status < 200 || response.status >= 300) {
+    throw new ClientError(response.status, data);
+  }
+  return data as T;
+}`;
+
+/**
+ * Writes `createClient()`, returning one function per operation, e.g. `client.listCharges(params)`,
+ * typed by the operation’s parameters and (successful) responses.
+ */
+export default function buildClient({
+  getOperationName,
+  operations,
+  output,
+  printDescription,
+}: GeneratorContext): void {
+  output.push(CLIENT_HELPERS);
+  output.push(
+    'export function createClient({ baseUrl, fetch = (globalThis as unknown as { fetch: Fetch }).fetch, headers = {} }: ClientOptions) {',
+    CLIENT_REQUEST,
+    'return {'
+  );
+  const functionNames: { [name: string]: boolean } = {};
+  operations.forEach((operation): void => {
+    const { method, operationId, parameters, path, requestBody, responses } = operation;
+    const operationName = getOperationName(operation);
+    const baseName = `${operationName[0].toLowerCase()}${operationName.slice(1)}`;
+    const functionName = getUniqueName(baseName, functionNames);
+
+    const operationType = `paths[${JSON.stringify(path)}][${JSON.stringify(method)}]`;
+    const paramsType = operationId ? `${operationName}.Params` : `${operationType}['parameters']`;
+    const isOptional =
+      parameters.every((parameter) => !parameter.required) &&
+      (!requestBody || !requestBody.required);
+    const statusCodes = Object.keys(responses).filter((statusCode) => /^2/.test(statusCode));
+    if (!statusCodes.length && responses.default) {
+      statusCodes.push('default');
+    }
+    const responseTypes = statusCodes.map((statusCode) =>
+      operationId
+        ? `${operationName}.Response${capitalize(statusCode)}`
+        : `${operationType}['responses'][${
+            /^\d+$/.test(statusCode) ? statusCode : JSON.stringify(statusCode)
+          }]`
+    );
+    const formats = parameters
+      .filter((parameter) => parameter.collectionFormat && parameter.collectionFormat !== 'csv')
+      .map((parameter) => `${sanitize(parameter.name)}: '${parameter.collectionFormat}'`);
+    const args = [JSON.stringify(method), JSON.stringify(path), 'params'];
+    if (formats.length) {
+      args.push(`{ ${formats.join(', ')} }`);
+    }
+
+    if (operation.description) {
+      printDescription(operation.description);
+    }
+    output.push(
+      `${functionName}: (params${isOptional ? '?' : ''}: ${paramsType}): Promise<${
+        responseTypes.join(' | ') || 'unknown'
+      }> => request(${args.join(', ')}),`
+    );
+  });
+  output.push('};', '}');
+}
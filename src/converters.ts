@@ -0,0 +1,115 @@
+import { GeneratorContext, Swagger2Definition } from './swagger-2';
+import { isNullable, sanitize } from './utils';
+
+type Direction = 'FromWire' | 'ToWire';
+
+// Written once for the converters option: copies an object with its keys renamed, converting the
+// values of any that need it (and of unlisted keys, with `convertRest`). Converters are typed by
+// what they take, e.g. `(value: User) => unknown`, which `(value: never) => unknown` accepts.
+export const CONVERTER_HELPERS = `function convertObject(
+  value: unknown,
+  keys: { [key: string]: [string, ((value: never) => unknown)?] },
+  convertRest?: (value: never) => unknown
+): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+  const object = value as { [key: string]: unknown };
+  const result: { [key: string]: unknown } = {};
+  Object.keys(object).forEach((key) => {
+    const isListed = Object.prototype.hasOwnProperty.call(keys, key);
+    const name = isListed ? keys[key][0] : key;
+    const convert = isListed ? keys[key][1] : convertRest;
+    const isEmpty = object[key] === null || object[key] === undefined;
+    result[name] = convert && !isEmpty ? convert(object[key] as never) : object[key];
+  });
+  return result;
+}
+function convertArray(convert: (value: never) => unknown): (value: unknown) => unknown {
+  return (value) => (Array.isArray(value) ? value.map((item) => convert(item as never)) : value);
+}`;
+
+/**
+ * Writes `UserFromWire()` and `UserToWire()` for an object, renaming keys between the spec’s names
+ * and the types’ (see the naming option), nested objects and arrays included.
+ */
+export default function createConverters(
+  context: GeneratorContext
+): (ID: string, name: string, definition: Swagger2Definition) => void {
+  const {
+    getAllProperties,
+    getNestedName,
+    getNonNullable,
+    getPropertyName,
+    getRef,
+    getType,
+    getVariantName,
+    isLeftOut,
+    output,
+  } = context;
+
+  // The function converting a value of this schema, e.g. `UserFromWire`, or
+  // `convertArray(UserFromWire)` for an array of them; undefined if it needs no converting
+  function getConverter(
+    definition: Swagger2Definition,
+    nestedName: string,
+    direction: Direction,
+    seen: Swagger2Definition[] = []
+  ): string | undefined {
+    const value = isNullable(definition) ? getNonNullable(definition) : definition;
+    if (value.$ref) {
+      const [refName, ref] = getRef(value.$ref);
+      if (seen.indexOf(ref) !== -1) {
+        return undefined;
+      }
+      if (ref.properties || ref.allOf) {
+        return `${getVariantName(refName, ref)}${direction}`;
+      }
+      return getConverter(ref, refName, direction, [...seen, ref]);
+    }
+    if (value.properties || value.allOf) {
+      return `${getType(value, nestedName)}${direction}`;
+    }
+    if (value.items) {
+      const convertItem = getConverter(value.items, nestedName, direction, seen);
+      return convertItem ? `convertArray(${convertItem})` : undefined;
+    }
+    if (typeof value.additionalProperties === 'object') {
+      const convertRest = getConverter(value.additionalProperties, '', direction, seen);
+      return convertRest
+        ? `(value: unknown) => convertObject(value, {}, ${convertRest})`
+        : undefined;
+    }
+    return undefined; // primitives, and unions (which can’t be told apart at runtime)
+  }
+
+  // Keys are renamed the same way the type’s properties are, and only those in the type are listed
+  return function buildConverters(ID, name, definition): void {
+    const properties = Object.entries(getAllProperties(ID, definition)).filter(
+      ([, [value]]) => !isLeftOut(value)
+    );
+    (['FromWire', 'ToWire'] as Direction[]).forEach((direction): void => {
+      const keys = properties.map(([key, [value, ownerID]]): string => {
+        const formattedKey = getPropertyName(key);
+        const [from, to] = direction === 'FromWire' ? [key, formattedKey] : [formattedKey, key];
+        const convert = getConverter(value, getNestedName(ownerID, formattedKey), direction);
+        return `${sanitize(from)}: [${JSON.stringify(to)}${convert ? `, ${convert}` : ''}]`;
+      });
+      const { additionalProperties } = definition;
+      const convertRest =
+        typeof additionalProperties === 'object'
+          ? getConverter(additionalProperties, '', direction)
+          : undefined;
+      const args = [`{ ${keys.join(', ')} }`, ...(convertRest ? [convertRest] : [])];
+      output.push(
+        direction === 'FromWire'
+          ? `export function ${name}FromWire(wire: unknown): ${name} {`
+          : `export function ${name}ToWire(value: ${name}): unknown {`,
+        direction === 'FromWire'
+          ? `return convertObject(wire, ${args.join(', ')}) as ${name};`
+          : `return convertObject(value, ${args.join(', ')});`,
+        '}'
+      );
+    });
+  };
+}
@@ -0,0 +1,140 @@
+import { GeneratorContext, Swagger2Definition } from './swagger-2';
+import { PRIMITIVE, isIdentifier, isNullable, prefixName } from './utils';
+
+/**
+ * Writes a type guard for a type, e.g. `isUser(value: unknown): value is User`. Objects are checked
+ * for their required properties, and for the type of the properties that are there.
+ */
+export default function createGuards(
+  context: GeneratorContext
+): (
+  ID: string,
+  name: string,
+  definition: Swagger2Definition,
+  isObject: boolean,
+  nestedName: string
+) => void {
+  const {
+    definitions,
+    formats,
+    getAllProperties,
+    getNestedName,
+    getNonNullable,
+    getPropertyName,
+    getRef,
+    getType,
+    getVariantName,
+    isLeftOut,
+    output,
+  } = context;
+
+  // A check that `value` (an expression) matches the schema, e.g. `typeof value.id === 'string'`;
+  // 'true' if there’s nothing to check
+  function getGuard(
+    definition: Swagger2Definition,
+    value: string,
+    nestedName: string,
+    seen: Swagger2Definition[] = []
+  ): string {
+    if (isNullable(definition)) {
+      const guard = getGuard(getNonNullable(definition), value, nestedName, seen);
+      return guard === 'true' ? guard : `(${value} === null || ${guard})`;
+    }
+
+    const { $ref, allOf, items, type } = definition;
+    if ($ref) {
+      const [refName, ref] = getRef($ref);
+      if (seen.indexOf(ref) !== -1) {
+        return 'true';
+      }
+      if (ref.properties || ref.allOf || definitions[refName] === ref) {
+        return `${prefixName('is', getVariantName(refName, ref))}(${value})`;
+      }
+      return getGuard(ref, value, refName, [...seen, ref]);
+    }
+
+    if (Array.isArray(definition.enum)) {
+      return `(${JSON.stringify(definition.enum)} as unknown[]).indexOf(${value}) !== -1`;
+    }
+
+    const union = definition.oneOf || definition.anyOf;
+    if (Array.isArray(union)) {
+      const guards = union.map((member, i) =>
+        getGuard(member, value, getNestedName(nestedName, `${i + 1}`), seen)
+      );
+      return guards.indexOf('true') === -1 ? `(${guards.join(' || ')})` : 'true';
+    }
+
+    const isIntersection =
+      Array.isArray(allOf) &&
+      !definition.properties &&
+      allOf.every((member) => !member.properties && !member.allOf);
+    if (isIntersection) {
+      const guards = (allOf as Swagger2Definition[])
+        .map((member, i) => getGuard(member, value, getNestedName(nestedName, `${i + 1}`), seen))
+        .filter((guard) => guard !== 'true');
+      return guards.length ? `(${guards.join(' && ')})` : 'true';
+    }
+
+    if (definition.properties || allOf) {
+      return `${prefixName('is', getType(definition, nestedName))}(${value})`;
+    }
+
+    if (type === 'array' && !items) {
+      return `Array.isArray(${value})`;
+    }
+    if (items) {
+      const guard = getGuard(items, 'item', nestedName, seen);
+      return guard === 'true'
+        ? `Array.isArray(${value})`
+        : `(Array.isArray(${value}) && ${value}.every((item) => ${guard}))`;
+    }
+
+    if (definition.additionalProperties || type === 'object') {
+      return `(typeof ${value} === 'object' && ${value} !== null)`;
+    }
+
+    // Mapped formats can be anything
+    if (definition.format && formats[definition.format]) {
+      return 'true';
+    }
+    if (type && PRIMITIVE[type]) {
+      return `typeof ${value} === '${PRIMITIVE[type]}'`;
+    }
+    return type === 'boolean' ? `typeof ${value} === 'boolean'` : 'true';
+  }
+
+  return function buildGuard(ID, name, definition, isObject, nestedName): void {
+    const functionName = prefixName('is', name);
+    const signature = `export function ${functionName}(value: unknown): value is ${name} {`;
+    if (!isObject) {
+      output.push(signature, `return ${getGuard(definition, 'value', nestedName)};`, '}');
+      return;
+    }
+
+    const checks = ["typeof value === 'object'", 'value !== null', '!Array.isArray(value)'];
+    Object.entries(getAllProperties(ID, definition)).forEach(
+      ([key, [value, ownerID, isRequired]]): void => {
+        if (isLeftOut(value)) {
+          return;
+        }
+        const formattedKey = getPropertyName(key);
+        const property = isIdentifier(formattedKey)
+          ? `object.${formattedKey}`
+          : `object[${JSON.stringify(formattedKey)}]`;
+        const guard = getGuard(value, property, getNestedName(ownerID, formattedKey));
+        if (isRequired) {
+          checks.push(guard === 'true' ? `${JSON.stringify(formattedKey)} in object` : guard);
+        } else if (guard !== 'true') {
+          checks.push(`(${property} === undefined || ${guard})`);
+        }
+      }
+    );
+    output.push(
+      signature,
+      'const object = value as { [key: string]: unknown };',
+      `return ${checks.join(' && ')};`,
+      '}'
+    );
+  };
+}
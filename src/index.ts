@@ -1,13 +1,16 @@
 import swagger2, { Swagger2, Swagger2Options } from './swagger-2';
+import swagger3, { OpenAPI3 } from './swagger-3';
 //re-export these from top-level as users may need thrm to create a propert5ymapper
 export { Swagger2Definition, Property } from './swagger-2';
+export { OpenAPI3SchemaObject } from './swagger-3';
+export { default as bundle } from './bundle';
 
 export type Options = Swagger2Options;
 
-export default function (spec: Swagger2, options?: Swagger2Options): string {
+export default function (spec: Swagger2 | OpenAPI3, options?: Swagger2Options): string {
   let version: number | undefined;
 
-  if (spec.swagger && parseInt(spec.swagger, 10) === 2) {
+  if ('swagger' in spec && spec.swagger && parseInt(spec.swagger, 10) === 2) {
     version = 2; // identify v3
   } else if (spec.openapi && parseInt(spec.openapi, 10) === 3) {
     version = 3; // identify v3
@@ -23,15 +26,12 @@ export default function (spec: Swagger2, options?: Swagger2Options): string {
       break;
     }
     case 3: {
-      console.warn(
-        `Swagger version 3 is in beta. Please report any bugs you find to github.com/manifoldco/swagger-to-ts 🙏!`
-      );
-      break;
+      return swagger3(spec as OpenAPI3, options);
     }
     default: {
       throw new Error(`Swagger version ${version} is not supported`);
     }
   }
 
-  return swagger2(spec, options);
+  return swagger2(spec as Swagger2, options);
 }
@@ -0,0 +1,269 @@
+import { GeneratorContext, Swagger2Definition } from './swagger-2';
+import { PRIMITIVE, isIdentifier, isNullable, prefixName, sanitize } from './utils';
+
+// Built-in types the mocks use, which types can’t take: a `Partial` definition would hide the one
+// mocks take their overrides as
+export const MOCK_NAMES = ['Partial'];
+
+// Placeholders for strings, by format, when a schema has no example of its own
+const MOCK_FORMATS: { [format: string]: string } = {
+  byte: 'ZXhhbXBsZQ==',
+  date: '2020-01-01',
+  'date-time': '2020-01-01T00:00:00Z',
+  email: 'user@example.com',
+  hostname: 'example.com',
+  ipv4: '127.0.0.1',
+  ipv6: '::1',
+  time: '00:00:00',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  uuid: '00000000-0000-0000-0000-000000000000',
+};
+
+/**
+ * Writes a mock for a type, e.g. `mockUser(overrides?)`, returning a sample value of it. Objects get
+ * every required property filled in; whatever else a test needs can be passed in.
+ */
+export default function createMocks(
+  context: GeneratorContext
+): (
+  ID: string,
+  name: string,
+  definition: Swagger2Definition,
+  isObject: boolean,
+  nestedName: string
+) => void {
+  const {
+    brands,
+    definitions,
+    enumStyle,
+    formats,
+    getAllProperties,
+    getDiscriminatorTag,
+    getEnumMembers,
+    getNestedName,
+    getPropertyName,
+    getRef,
+    getSubtypes,
+    getType,
+    getVariantName,
+    isEnumerable,
+    isLeftOut,
+    output,
+  } = context;
+  let building: Swagger2Definition = {}; // the type whose mock is being written
+
+  // Whether a schema’s example (or default) can be used as it is: not when it holds objects, whose
+  // keys may be renamed, or named enums, which aren’t plain values
+  function canUseExample(definition: Swagger2Definition): boolean {
+    const { items } = definition;
+    return (
+      !definition.$ref &&
+      !definition.properties &&
+      !definition.allOf &&
+      !definition.oneOf &&
+      !definition.anyOf &&
+      !definition.additionalProperties &&
+      !(enumStyle !== 'inline' && Array.isArray(definition.enum)) &&
+      (!items || (canUseExample(items) && !items.format && !items['x-brand']))
+    );
+  }
+
+  // Whether an object (or anything it extends) has additionalProperties, which Partial<> makes
+  // optional, so overrides no longer match the type without a cast
+  function hasIndexSignature(
+    definition: Swagger2Definition,
+    seen: Swagger2Definition[] = []
+  ): boolean {
+    if (seen.indexOf(definition) !== -1) {
+      return false;
+    }
+    return (
+      !!definition.additionalProperties ||
+      (definition.allOf || []).some((member) =>
+        hasIndexSignature(member.$ref ? getRef(member.$ref)[1] : member, [...seen, definition])
+      )
+    );
+  }
+
+  // Whether the mock of a schema could end up calling the one of `target`, through required
+  // properties or any union or allOf member; calling it from there would never return
+  function leadsTo(
+    definition: Swagger2Definition,
+    target: Swagger2Definition,
+    seen: Swagger2Definition[] = []
+  ): boolean {
+    if (definition === target) {
+      return true;
+    }
+    const example = definition.example !== undefined ? definition.example : definition.default;
+    if (
+      seen.indexOf(definition) !== -1 ||
+      (example !== undefined && canUseExample(definition)) ||
+      isNullable(definition) ||
+      Array.isArray(definition.enum)
+    ) {
+      return false;
+    }
+    const next = [...seen, definition];
+    if (definition.$ref) {
+      const ref = getRef(definition.$ref)[1];
+      return [ref, ...(ref.discriminator ? getSubtypes(ref) : [])].some((member) =>
+        leadsTo(member, target, next)
+      );
+    }
+    const members = [...(definition.oneOf || []), ...(definition.anyOf || [])];
+    const properties = Object.values(getAllProperties('', definition))
+      .filter(([value, , isRequired]) => isRequired && !isLeftOut(value))
+      .map(([value]) => value);
+    return [...members, ...(definition.allOf || []), ...properties].some((member) =>
+      leadsTo(member, target, next)
+    );
+  }
+
+  // A sample value of the schema, e.g. `'user@example.com'` or `mockUser()`: its example (or
+  // default), `null` if it’s nullable, its first enum value, or a placeholder for its type. Arrays
+  // are empty, unions take a member that doesn’t lead back to the type being mocked, and a mock
+  // that would is replaced by `{}` cast to its type, so recursive schemas don’t recurse forever.
+  function getMock(
+    definition: Swagger2Definition,
+    nestedName: string,
+    seen: Swagger2Definition[] = []
+  ): string {
+    const { $ref, allOf, format, items, type } = definition;
+
+    // Brands and mapped formats only exist as types, so the sample value is cast to them
+    const cast = (value: string): string => {
+      if (type && PRIMITIVE[type] && (definition['x-brand'] || (format && brands[format]))) {
+        return `${value} as ${getType(definition, nestedName)}`;
+      }
+      if (format && formats[format]) {
+        return `${value} as unknown as ${formats[format]}`;
+      }
+      return value;
+    };
+
+    const example = definition.example !== undefined ? definition.example : definition.default;
+    if (example !== undefined && canUseExample(definition)) {
+      return cast(JSON.stringify(example));
+    }
+    if (isNullable(definition)) {
+      return 'null';
+    }
+
+    if ($ref) {
+      const [refName, ref] = getRef($ref);
+      if (seen.indexOf(ref) !== -1) {
+        return 'null';
+      }
+      const subtypes =
+        ref.discriminator && !ref.oneOf && !ref.anyOf && definitions[refName] === ref
+          ? getSubtypes(ref)
+          : [];
+      if (subtypes.length) {
+        return getMock({ oneOf: subtypes, discriminator: ref.discriminator }, refName, seen);
+      }
+      if (ref.properties || ref.allOf || definitions[refName] === ref) {
+        return leadsTo(ref, building)
+          ? `{} as ${getType(definition, nestedName)}`
+          : `${prefixName('mock', getVariantName(refName, ref))}()`;
+      }
+      return getMock(ref, refName, [...seen, ref]);
+    }
+
+    if (Array.isArray(definition.enum)) {
+      if (enumStyle === 'inline') {
+        return JSON.stringify(definition.enum[0]);
+      }
+      return `${prefixName('mock', getType(definition, nestedName))}()`;
+    }
+
+    const union = definition.oneOf || definition.anyOf;
+    if (Array.isArray(union) && union.length) {
+      const index = Math.max(
+        union.findIndex((item) => !leadsTo(item, building)),
+        0
+      );
+      const member = union[index];
+      const mock = getMock(member, getNestedName(nestedName, `${index + 1}`), seen);
+      const { discriminator } = definition;
+      return discriminator && member.$ref
+        ? `{ ...${mock}, ${getDiscriminatorTag(discriminator, member.$ref)} }`
+        : mock;
+    }
+
+    const isIntersection =
+      Array.isArray(allOf) &&
+      !definition.properties &&
+      allOf.every((member) => !member.properties && !member.allOf);
+    if (isIntersection) {
+      const members = allOf as Swagger2Definition[];
+      const mock = getMock(members[0], getNestedName(nestedName, '1'), seen);
+      return members.length === 1 ? mock : `${mock} as ${getType(definition, nestedName)}`;
+    }
+
+    if (definition.properties || allOf) {
+      const name = getType(definition, nestedName);
+      return leadsTo(definition, building) ? `{} as ${name}` : `${prefixName('mock', name)}()`;
+    }
+
+    if (items || type === 'array') {
+      return '[]';
+    }
+
+    if (definition.additionalProperties || type === 'object') {
+      return '{}';
+    }
+
+    switch (type) {
+      case 'string':
+        return cast(JSON.stringify((format && MOCK_FORMATS[format]) || 'string'));
+      case 'integer':
+      case 'number':
+        return cast(typeof definition.minimum === 'number' ? `${definition.minimum}` : '0');
+      case 'boolean':
+        return 'false';
+      default:
+        return definition.not ? 'null' : '{}';
+    }
+  }
+
+  return function buildMock(ID, name, definition, isObject, nestedName): void {
+    const functionName = prefixName('mock', name);
+    building = definition;
+    if (!isObject) {
+      let mock = getMock(definition, nestedName);
+      // A named enum is the one thing getMock() would point back to itself for
+      if (enumStyle !== 'inline' && Array.isArray(definition.enum)) {
+        const values: unknown[] = definition.enum;
+        const example = definition.example !== undefined ? definition.example : definition.default;
+        const index = Math.max(values.indexOf(example), 0);
+        const [member, value] = getEnumMembers(definition)[index] || ['', 'null'];
+        mock = value;
+        if (isEnumerable(definition) && enumStyle === 'enum') {
+          mock = isIdentifier(member) ? `${name}.${member}` : `${name}[${member}]`;
+        }
+      }
+      output.push(`export function ${functionName}(): ${name} {`, `return ${mock};`, '}');
+      return;
+    }
+
+    const values: string[] = [];
+    Object.entries(getAllProperties(ID, definition)).forEach(
+      ([key, [value, ownerID, isRequired]]): void => {
+        if (!isRequired || isLeftOut(value)) {
+          return;
+        }
+        const formattedKey = getPropertyName(key);
+        const mock = getMock(value, getNestedName(ownerID, formattedKey));
+        values.push(`${sanitize(formattedKey)}: ${mock}`);
+      }
+    );
+    const cast = hasIndexSignature(definition) ? ` as ${name}` : '';
+    output.push(
+      `export function ${functionName}(overrides: Partial<${name}> = {}): ${name} {`,
+      `return { ${[...values, '...overrides'].join(', ')} }${cast};`,
+      '}'
+    );
+  };
+}
@@ -1,18 +1,55 @@
 import * as prettier from 'prettier';
-import { camelCase, capitalize, sanitize, snakeCase } from './utils';
+import buildClient, { CLIENT_NAMES } from './client';
+import createConverters, { CONVERTER_HELPERS } from './converters';
+import createGuards from './guards';
+import createMocks, { MOCK_NAMES } from './mocks';
+import {
+  PRIMITIVE,
+  camelCase,
+  capitalize,
+  checkWrapper,
+  formatComment,
+  getTypeName,
+  getUniqueName,
+  getUniqueTypeName,
+  isNullable,
+  parsePointer,
+  pascalCase,
+  resolvePointer,
+  resolveRef,
+  sanitize,
+  toIdentifier,
+  warningMessage,
+} from './utils';
+import generateZod from './zod';
 
 export interface Swagger2Definition {
   $ref?: string;
   allOf?: Swagger2Definition[];
+  anyOf?: Swagger2Definition[];
+  default?: unknown;
+  deprecated?: boolean;
   description?: string;
-  enum?: string[];
+  // Swagger 2 names the property; OpenAPI 3 also allows mapping values to schemas
+  discriminator?: string | { propertyName: string; mapping?: { [value: string]: string } };
+  enum?: (string | number | boolean | null)[];
+  example?: unknown;
+  externalDocs?: { description?: string; url: string };
   format?: string;
   items?: Swagger2Definition;
+  maximum?: number;
+  maxLength?: number;
+  minimum?: number;
+  minLength?: number;
+  not?: Swagger2Definition;
   oneOf?: Swagger2Definition[];
+  pattern?: string;
   properties?: { [index: string]: Swagger2Definition };
   additionalProperties?: boolean | Swagger2Definition;
   required?: string[];
-  type?: 'array' | 'boolean' | 'integer' | 'number' | 'object' | 'string';
+  title?: string;
+  // `file` is only allowed for formData parameters
+  type?: 'array' | 'boolean' | 'file' | 'integer' | 'number' | 'object' | 'string';
   // use this construct to allow arbitrary x-something properties. Must be any,
   // since we have no idea what they might be
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -25,42 +62,278 @@ export interface Property {
   description?: string;
 }
 
+export interface Swagger2Parameter {
+  $ref?: string;
+  collectionFormat?: 'csv' | 'ssv' | 'tsv' | 'pipes' | 'multi';
+  description?: string;
+  in?: 'body' | 'formData' | 'header' | 'path' | 'query';
+  name?: string;
+  required?: boolean;
+  schema?: Swagger2Definition;
+  // non-body parameters describe their type inline (type, format, items, enum…)
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [key: string]: any;
+}
+
+export interface Swagger2Response {
+  $ref?: string;
+  description?: string;
+  schema?: Swagger2Definition;
+}
+
+export interface Swagger2Operation {
+  description?: string;
+  operationId?: string;
+  parameters?: Swagger2Parameter[];
+  responses?: { [statusCode: string]: Swagger2Response };
+  summary?: string;
+}
+
+export interface Swagger2PathItem {
+  delete?: Swagger2Operation;
+  get?: Swagger2Operation;
+  head?: Swagger2Operation;
+  options?: Swagger2Operation;
+  parameters?: Swagger2Parameter[];
+  patch?: Swagger2Operation;
+  post?: Swagger2Operation;
+  put?: Swagger2Operation;
+}
+
 export interface Swagger2 {
   swagger?: string;
   openapi?: string;
   definitions: {
     [index: string]: Swagger2Definition;
   };
+  parameters?: { [index: string]: Swagger2Parameter };
+  paths?: { [url: string]: Swagger2PathItem };
+  responses?: { [index: string]: Swagger2Response };
+}
+
+// Swagger 2 and OpenAPI 3 describe operations differently; both are normalized to this before
+// generating the `paths` interface
+export interface OperationParameter {
+  collectionFormat?: string;
+  description?: string;
+  in: 'cookie' | 'formData' | 'header' | 'path' | 'query';
+  name: string;
+  required: boolean;
+  schema: Swagger2Definition;
+}
+
+export interface Operation {
+  description?: string;
+  method: string;
+  operationId?: string;
+  parameters: OperationParameter[];
+  path: string;
+  requestBody?: { description?: string; required: boolean; schema: Swagger2Definition };
+  responses: { [statusCode: string]: { description?: string; schema?: Swagger2Definition } };
+}
+
+export interface GenerateInput {
+  defaultWrapper: string;
+  definitions: { [index: string]: Swagger2Definition };
+  operations: Operation[];
+  refPrefix: string;
+  spec: object;
+}
+
+// What generate() shares with the modules writing runtime code next to the types (converters,
+// guards, mocks and the client): its settings, how it names things, and the output so far
+export interface GeneratorContext {
+  brands: { [format: string]: string };
+  definitions: { [index: string]: Swagger2Definition };
+  enumStyle: NonNullable<Swagger2Options['enums']>;
+  formats: { [format: string]: string };
+  operations: Operation[];
+  output: string[];
+  getAllProperties(
+    ID: string,
+    definition: Swagger2Definition
+  ): { [key: string]: [Swagger2Definition, string, boolean] };
+  getDiscriminatorTag(
+    discriminator: NonNullable<Swagger2Definition['discriminator']>,
+    $ref: string
+  ): string;
+  getEnumMembers(definition: Swagger2Definition): string[][];
+  getNestedName(parent: string, key: string): string;
+  getNonNullable(definition: Swagger2Definition): Swagger2Definition;
+  getOperationName(operation: Operation): string;
+  getPropertyName(key: string): string;
+  getRef(lookup: string): [string, Swagger2Definition];
+  getSubtypes(base: Swagger2Definition): Swagger2Definition[];
+  // The type of a schema, naming (and queuing) it if it’s an object or named enum, and narrowing a
+  // reference to a discriminated base down to its subtypes. Converters, guards and mocks go by it,
+  // so an inline object’s functions share its type’s name (`mockUserAddress`).
+  getType(definition: Swagger2Definition, nestedName: string): string;
+  // The name of a definition, or of its `…Input` variant while writing input types
+  getVariantName(ID: string, definition: Swagger2Definition): string;
+  isEnumerable(definition: Swagger2Definition): boolean;
+  // Whether a property is left out of the type being written (see the inputTypes option)
+  isLeftOut(property: Swagger2Definition): boolean;
+  printDescription(description: string): void;
+}
+
+export interface NamingOptions {
+  // Definition (and nested) names; `keep` only replaces what can’t be in an identifier
+  types?: 'keep' | 'pascal' | ((name: string) => string);
+  properties?: 'keep' | 'camel' | ((key: string) => string);
+  // Names inline schemas after where they’re found, e.g. (`User`, `address`) -> `UserAddress`
+  nested?: (parent: string, key: string) => string;
 }
 
 export interface Swagger2Options {
   camelcase?: boolean;
+  client?: boolean;
+  converters?: boolean;
+  enums?: 'inline' | 'union' | 'enum' | 'const';
+  brands?: { [format: string]: string };
+  formats?: { [format: string]: string };
+  guards?: boolean;
+  immutable?: boolean;
+  inputTypes?: boolean;
+  mocks?: boolean;
+  naming?: NamingOptions;
+  objects?: 'interface' | 'type';
   propertyMapper?: (swaggerDefinition: Swagger2Definition, property: Property) => Property;
+  target?: 'types' | 'zod';
   warning?: boolean;
   wrapper?: string | false;
 }
 
-export const warningMessage = `/**
- * This file was auto-generated by swagger-to-ts.
- * Do not make direct changes to the file.
- */
-`;
+export const METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
 
-const PRIMITIVE: { [index: string]: string } = {
-  string: 'string',
-  integer: 'number',
-  number: 'number',
-};
+// Parameter groups, in the order they’re written to each operation
+const PARAMETER_LOCATIONS: OperationParameter['in'][] = [
+  'path',
+  'query',
+  'header',
+  'cookie',
+  'formData',
+];
 
-function parse(spec: Swagger2, options: Swagger2Options = {}): string {
+// Wraps unions, intersections and readonly arrays in parentheses before adding `[]`
+function getArrayType(itemType: string, isReadonly = false): string {
+  const type = /[|&]|^readonly /.test(itemType.trim()) ? `(${itemType.trim()})[]` : `${itemType}[]`;
+  return isReadonly ? `readonly ${type}` : type;
+}
+
+function getEnumType(values: unknown[]): string {
+  return ` ${values.map((option) => JSON.stringify(option)).join(' | ')}`;
+}
+
+// e.g. `in_progress` -> `InProgress`. Enum members can’t be named after a number.
+function getEnumMemberName(value: unknown): string {
+  const name = pascalCase(String(value)) || 'Empty';
+  return /^\d/.test(name) ? `_${name}` : name;
+}
+
+// Flattens allOf nested in inline allOf members, keeping $refs and inline schemas in order
+function flattenAllOf(members: Swagger2Definition[]): Swagger2Definition[] {
+  return members.reduce(
+    (flat: Swagger2Definition[], member) =>
+      !member.$ref && Array.isArray(member.allOf)
+        ? [...flat, member, ...flattenAllOf(member.allOf)]
+        : [...flat, member],
+    []
+  );
+}
+
+// What a schema looks like to TypeScript, leaving out documentation
+const DOCUMENTATION = ['default', 'deprecated', 'description', 'example', 'externalDocs', 'title'];
+function getTypeSignature(definition: Swagger2Definition): string {
+  return JSON.stringify(definition, (key, value) =>
+    DOCUMENTATION.indexOf(key) === -1 ? value : undefined
+  );
+}
+
+// What an operation’s namespace holds (see buildOperationNamespace()). No type can take these
+// names: inside the namespace, the member would hide it.
+function getNamespaceMembers({ parameters, requestBody, responses }: Operation): string[] {
+  const groups = PARAMETER_LOCATIONS.filter((location) =>
+    parameters.some((parameter) => parameter.in === location)
+  );
+  return [
+    ...groups.map((location) => `${capitalize(location)}Params`),
+    ...(requestBody ? ['Body'] : []),
+    'Params',
+    ...Object.keys(responses).map((statusCode) => `Response${capitalize(statusCode)}`),
+  ];
+}
+
+// Merges path-level and operation-level parameters (operation-level wins), resolving any $refs
+export function mergeParameters<T extends { $ref?: string; in?: string; name?: string }>(
+  spec: object,
+  ...lists: (T[] | undefined)[]
+): T[] {
+  const merged: { [key: string]: T } = {};
+  lists.forEach((list): void => {
+    (list || []).forEach((item): void => {
+      const parameter = resolveRef<T>(spec, item);
+      merged[`${parameter.in}:${parameter.name}`] = parameter;
+    });
+  });
+  return Object.values(merged);
+}
+
+// Shared by the Swagger 2 and OpenAPI 3 generators; only where the schemas live (and how they’re
+// referenced) differs between the two
+export function generate(input: GenerateInput, options: Swagger2Options = {}): string {
+  const { definitions, refPrefix, defaultWrapper, operations, spec } = input;
   const shouldUseWrapper = options.wrapper !== false;
   const wrapper =
-    typeof options.wrapper === 'string' && options.wrapper
-      ? options.wrapper
-      : 'declare namespace OpenAPI2';
+    typeof options.wrapper === 'string' && options.wrapper ? options.wrapper : defaultWrapper;
   const shouldCamelCase = options.camelcase || false;
+  const enumStyle = options.enums || 'inline';
+  const formats = options.formats || {};
+  const brands = options.brands || {};
+  const shouldUseInputTypes = options.inputTypes || false;
+  const isImmutable = options.immutable || false;
+  const objectStyle = options.objects || 'interface';
+  const readonly = isImmutable ? 'readonly ' : ''; // prefix for properties
+  const shouldWriteConverters = options.converters || false;
+  const shouldWriteGuards = options.guards || false;
+  const shouldWriteClient = options.client || false;
+  const shouldWriteMocks = options.mocks || false;
+  const naming = options.naming || {};
+  const propertyNaming = naming.properties || (shouldCamelCase ? 'camel' : 'keep');
 
-  const queue: [string, Swagger2Definition][] = [];
+  if (['inline', 'union', 'enum', 'const'].indexOf(enumStyle) === -1) {
+    throw new Error(`Unknown enums option "${enumStyle}" (use inline, union, enum or const)`);
+  }
+  if (['interface', 'type'].indexOf(objectStyle) === -1) {
+    throw new Error(`Unknown objects option "${objectStyle}" (use interface or type)`);
+  }
+  if (typeof naming.types === 'string' && ['keep', 'pascal'].indexOf(naming.types) === -1) {
+    throw new Error(
+      `Unknown naming.types option "${naming.types}" (use keep, pascal or a function)`
+    );
+  }
+  if (typeof propertyNaming === 'string' && ['keep', 'camel'].indexOf(propertyNaming) === -1) {
+    throw new Error(
+      `Unknown naming.properties option "${propertyNaming}" (use keep, camel or a function)`
+    );
+  }
+  if (options.target && ['types', 'zod'].indexOf(options.target) === -1) {
+    throw new Error(`Unknown target option "${options.target}" (use types or zod)`);
+  }
+  if (options.target === 'zod') {
+    return generateZod(input, options);
+  }
+  // Options writing runtime code refuse a `declare` wrapper (see checkWrapper())
+  const usedWrapper = shouldUseWrapper ? wrapper : '';
+  if (enumStyle === 'enum' || enumStyle === 'const') {
+    checkWrapper(`enums: "${enumStyle}"`, usedWrapper);
+  }
+  ['converters', 'guards', 'mocks', 'client'].forEach((option): void => {
+    if (options[option as 'converters' | 'guards' | 'mocks' | 'client']) {
+      checkWrapper(option, usedWrapper);
+    }
+  });
+
+  const queue: [string, Swagger2Definition, boolean?][] = []; // [ID, definition, isInput]
 
   const output: string[] = [];
 
@@ -72,12 +345,215 @@ function parse(spec: Swagger2, options: Swagger2Options = {}): string {
     output.push(`${wrapper} {`);
   }
 
-  const { definitions } = spec;
+  const definitionsPath = parsePointer(refPrefix.replace(/\/$/, ''));
+  const generated: { [name: string]: Swagger2Definition } = {};
+  const names = new Map<Swagger2Definition, string>(); // see getName()
+  const inputNames = new Map<Swagger2Definition, string>();
+  const operationNames = new Map<Operation, string>(); // namespaces, see getOperationName()
+  const takenNames: { [name: string]: boolean } = operations.length ? { paths: true } : {};
+  if (shouldWriteClient) {
+    CLIENT_NAMES.forEach((name) => (takenNames[name] = true));
+  }
+  if (shouldWriteMocks) {
+    MOCK_NAMES.forEach((name) => (takenNames[name] = true));
+  }
+  operations
+    .filter((operation) => !!operation.operationId)
+    .forEach((operation) =>
+      getNamespaceMembers(operation).forEach((name) => (takenNames[name] = true))
+    );
+  const nonNullables = new Map<Swagger2Definition, Swagger2Definition>(); // so they keep one name
+  const followingRefs: Swagger2Definition[] = []; // $ref targets being flattened by getType()
+  const typeAliases: Swagger2Definition[] = []; // recursive $ref targets, written as `type X = …`
+  const inputVariants = new Map<Swagger2Definition, boolean>(); // see hasInputVariant()
+  let isInput = false; // writing request bodies (or the `…Input` variants they use)
+  const brandedTypes: { [name: string]: string } = {}; // declared once, at the end ('' if written in place)
+
+  // Whatever the naming strategy, names have to be valid (and unreserved) identifiers
+  function getInterfaceName(ID: string): string {
+    return toIdentifier(getTypeName(ID, options));
+  }
+
+  function getPropertyName(key: string): string {
+    if (typeof propertyNaming === 'function') {
+      return propertyNaming(key);
+    }
+    return propertyNaming === 'camel' ? camelCase(key) : key;
+  }
 
+  function getNestedName(parent: string, key: string): string {
+    return naming.nested ? naming.nested(parent, key) : camelCase(`${parent}${capitalize(key)}`);
+  }
+
+  // Every exported type is named here, so no two get the same name (which TypeScript would quietly
+  // merge). Top-level definitions are named first; whatever comes later and would collide with an
+  // existing name is numbered instead, e.g. `UserAddress2`.
+  function getName(ID: string, definition: Swagger2Definition, isInputVariant = false): string {
+    const registry = isInputVariant ? inputNames : names;
+    const existing = registry.get(definition);
+    if (existing) {
+      return existing;
+    }
+    const baseName = `${getInterfaceName(ID)}${isInputVariant ? 'Input' : ''}`;
+    const name = getUniqueTypeName(ID, baseName, takenNames);
+    registry.set(definition, name);
+    return name;
+  }
+
+  // Name inline schemas (and operation namespaces) after the operation, e.g. `GetRegionsId200`.
+  // Namespaces are exported, so they’re named like types: `get-user` and `getUser` become
+  // `GetUser` and `GetUser2`, and neither merges with a `GetUser` definition.
+  function getOperationName(operation: Operation): string {
+    const { method, operationId, path } = operation;
+    const existing = operationNames.get(operation);
+    if (existing) {
+      return existing;
+    }
+    const baseName = toIdentifier(
+      operationId ? capitalize(camelCase(operationId)) : pascalCase(`${method} ${path}`)
+    );
+    if (!operationId) {
+      return baseName;
+    }
+    const name = getUniqueTypeName(operationId, baseName, takenNames);
+    operationNames.set(operation, name);
+    return name;
+  }
+
+  // Resolves any JSON Pointer within the spec. Pointers into a definition are named the same way
+  // as the nested interfaces generated for it: `#/definitions/User/properties/remote_id` is
+  // `UserRemoteId`. Pointers elsewhere are named after their full path.
   function getRef(lookup: string): [string, Swagger2Definition] {
-    const ID = lookup.replace('#/definitions/', '');
-    const ref = definitions[ID];
-    return [ID, ref];
+    if (!lookup.startsWith('#')) {
+      throw new Error(
+        `Could not resolve ${lookup}. $refs to other files need to be bundled first (see bundle()).`
+      );
+    }
+    const ref: Swagger2Definition = resolvePointer(spec, lookup);
+    const path = parsePointer(lookup);
+    const isDefinition =
+      path.length > definitionsPath.length &&
+      definitionsPath.every((token, i) => path[i] === token);
+    if (!isDefinition) {
+      return [pascalCase(path.join(' ')), ref];
+    }
+
+    const [ID, ...nestedPath] = path.slice(definitionsPath.length);
+    let nestedName = ID;
+    while (nestedPath.length) {
+      const token = nestedPath.shift() as string;
+      if (token === 'properties' && nestedPath.length) {
+        const key = nestedPath.shift() as string;
+        nestedName = getNestedName(nestedName, getPropertyName(key));
+      } else if (token !== 'items') {
+        nestedName = getNestedName(nestedName, token);
+      }
+    }
+    return [nestedName, ref];
+  }
+
+  // Definitions that extend `base` through allOf
+  function getSubtypes(base: Swagger2Definition): Swagger2Definition[] {
+    return Object.keys(definitions)
+      .filter((name) => {
+        const { allOf } = definitions[name];
+        return (
+          Array.isArray(allOf) && allOf.some((item) => !!item.$ref && getRef(item.$ref)[1] === base)
+        );
+      })
+      .map((name) => ({ $ref: `${refPrefix}${name.replace(/~/g, '~0').replace(/\//g, '~1')}` }));
+  }
+
+  // e.g. `petType: 'Cat'`. The value comes from the OpenAPI 3 mapping, then Swagger 2’s
+  // x-discriminator-value, then the name of the schema.
+  function getDiscriminatorTag(
+    discriminator: NonNullable<Swagger2Definition['discriminator']>,
+    $ref: string
+  ): string {
+    const propertyName =
+      typeof discriminator === 'string' ? discriminator : discriminator.propertyName;
+    const mapping = (typeof discriminator === 'object' && discriminator.mapping) || {};
+    const [refName, refProperties] = getRef($ref);
+    const value =
+      Object.keys(mapping).find((key) => mapping[key] === $ref || mapping[key] === refName) ||
+      refProperties['x-discriminator-value'] ||
+      refName;
+    return `${sanitize(propertyName)}: ${JSON.stringify(value)}`;
+  }
+
+  // e.g. `type UUID = string & { __brand: 'uuid' }`, so IDs of one kind can’t be passed as another
+  function getBrandedType(brandName: string, brand: string, baseType: string): string {
+    const name = toIdentifier(brandName);
+    if (!(name in brandedTypes)) {
+      const tag = JSON.stringify(brand);
+      brandedTypes[name] = `export type ${name} = ${baseType} & { __brand: ${tag} };`;
+    }
+    return name;
+  }
+
+  // Whether a schema has readOnly or writeOnly properties, directly or through what it references,
+  // and so needs separate input (`CustomerInput`) and output (`Customer`) types
+  function hasInputVariant(
+    definition: Swagger2Definition,
+    seen: Swagger2Definition[] = []
+  ): boolean {
+    const isRoot = !seen.length;
+    if (inputVariants.has(definition)) {
+      return inputVariants.get(definition) as boolean;
+    }
+    if (seen.indexOf(definition) !== -1) {
+      return false;
+    }
+    seen.push(definition);
+
+    const properties = Object.values(definition.properties || {});
+    const children = [
+      ...properties,
+      ...(definition.allOf || []),
+      ...(definition.anyOf || []),
+      ...(definition.oneOf || []),
+      ...(definition.items ? [definition.items] : []),
+    ];
+    if (typeof definition.additionalProperties === 'object') {
+      children.push(definition.additionalProperties);
+    }
+    const result =
+      properties.some((property) => !!property.readOnly || !!property.writeOnly) ||
+      children.some((child) => hasInputVariant(child, seen)) ||
+      (!!definition.$ref && hasInputVariant(getRef(definition.$ref)[1], seen));
+    // Within a cycle, `false` is only certain once the walk is back at the root
+    if (result || isRoot) {
+      inputVariants.set(definition, result);
+    }
+    return result;
+  }
+
+  function usesInputVariant(definition: Swagger2Definition): boolean {
+    return isInput && hasInputVariant(definition);
+  }
+
+  // Queues up the `…Input` variant of a definition, returning its name
+  function getInputVariant(ID: string, definition: Swagger2Definition): string {
+    queue.push([ID, definition, true]);
+    return getName(ID, definition, true);
+  }
+
+  function getVariantName(ID: string, definition: Swagger2Definition): string {
+    return usesInputVariant(definition) ? getInputVariant(ID, definition) : getName(ID, definition);
+  }
+
+  // Input types leave out what the server sets, output types what it never sends back
+  function isLeftOut(property: Swagger2Definition): boolean {
+    return shouldUseInputTypes && !!(isInput ? property.readOnly : property.writeOnly);
+  }
+
+  // The same schema without `nullable`, kept so it’s named the same every time
+  function getNonNullable(definition: Swagger2Definition): Swagger2Definition {
+    const nonNullable = nonNullables.get(definition) || { ...definition };
+    delete nonNullable.nullable;
+    delete nonNullable['x-nullable'];
+    nonNullables.set(definition, nonNullable);
+    return nonNullable;
   }
 
   // Returns primitive type, or 'object' or 'any'
@@ -86,164 +562,736 @@ function parse(spec: Swagger2, options: Swagger2Options = {}): string {
     nestedName: string,
     getTypeOptions: { camelcase: boolean }
   ): string {
+    // “May be null” is independent of “may be absent” (`required`), so it’s part of the type
+    if (isNullable(definition)) {
+      return `${getType(getNonNullable(definition), nestedName, getTypeOptions)} | null`;
+    }
+
     const { $ref, items, type, ...value } = definition;
 
-    const nextInterface = camelCase(nestedName); // if this becomes an interface, it’ll need to be camelCased
+    const queueNested = (nested: Swagger2Definition): string => {
+      queue.push([nestedName, nested]);
+      return getName(nestedName, nested);
+    };
 
     const DEFAULT_TYPE = 'object';
 
     if ($ref) {
       const [refName, refProperties] = getRef($ref);
-      let convertedRefName = snakeCase(refName);
-      if (options && options.camelcase === true) {
-        convertedRefName = camelCase(convertedRefName);
+      const convertedRefName = getName(refName, refProperties);
+      if (typeAliases.indexOf(refProperties) !== -1) {
+        return usesInputVariant(refProperties)
+          ? getInputVariant(refName, refProperties)
+          : convertedRefName;
       }
-      // If a shallow array interface, return that instead
-      if (refProperties.items && refProperties.items.$ref) {
-        return getType(refProperties, refName, getTypeOptions);
+      // A $ref that leads back to itself while being flattened (e.g. an array of itself) can’t be
+      // written inline, so it gets a type alias instead
+      if (followingRefs.indexOf(refProperties) !== -1) {
+        typeAliases.push(refProperties);
+        if (usesInputVariant(refProperties)) {
+          return getInputVariant(refName, refProperties);
+        }
+        queue.push([refName, refProperties]);
+        return convertedRefName;
       }
-      if (refProperties.type && PRIMITIVE[refProperties.type]) {
-        return PRIMITIVE[refProperties.type];
+      followingRefs.push(refProperties);
+      try {
+        // Only top-level definitions are queued up front; anything else gets generated here
+        if (definitions[refName] !== refProperties) {
+          if (refProperties.properties || refProperties.allOf) {
+            if (usesInputVariant(refProperties)) {
+              return getInputVariant(refName, refProperties);
+            }
+            queue.push([refName, refProperties]);
+            return convertedRefName;
+          }
+          return enumStyle === 'inline' && Array.isArray(refProperties.enum)
+            ? getEnumType(refProperties.enum)
+            : getType(refProperties, refName, getTypeOptions);
+        }
+        // References to a discriminated base are narrowed down to its subtypes
+        if (refProperties.discriminator && !refProperties.oneOf && !refProperties.anyOf) {
+          const subtypes = getSubtypes(refProperties);
+          if (subtypes.length) {
+            const { discriminator } = refProperties;
+            return getType({ oneOf: subtypes, discriminator }, refName, getTypeOptions);
+          }
+        }
+        if (usesInputVariant(refProperties)) {
+          return getInputVariant(refName, refProperties);
+        }
+        return convertedRefName || DEFAULT_TYPE;
+      } finally {
+        followingRefs.pop();
       }
-      return convertedRefName || DEFAULT_TYPE;
     }
 
     if (items && items.$ref) {
       const [refName] = getRef(items.$ref);
-      return `${getType(items, refName, getTypeOptions)}[]`;
+      return getArrayType(getType(items, refName, getTypeOptions), isImmutable);
     }
 
     if (items) {
       // if an array, keep nesting
       if (items.type === 'array') {
-        return `${getType(items, nestedName, getTypeOptions)}[]`;
+        return getArrayType(getType(items, nestedName, getTypeOptions), isImmutable);
+      }
+      const isNamedEnum = enumStyle !== 'inline' && Array.isArray(items.enum);
+      if (items.oneOf || items.anyOf || isNullable(items) || isNamedEnum) {
+        return getArrayType(getType(items, nestedName, getTypeOptions), isImmutable);
       }
       // else if primitive, return type
       if (items.type && PRIMITIVE[items.type]) {
-        return `${PRIMITIVE[items.type]}[]`;
+        return getArrayType(getType(items, nestedName, getTypeOptions), isImmutable);
       }
       // otherwise if this is an array of nested types, return that interface for later
-      queue.push([nextInterface, items]);
-      return `${nextInterface}[]`;
+      if (usesInputVariant(items)) {
+        return getArrayType(getInputVariant(nestedName, items), isImmutable);
+      }
+      return getArrayType(queueNested(items), isImmutable);
     }
 
-    if (Array.isArray(value.oneOf)) {
-      return value.oneOf.map((def): string => getType(def, '', getTypeOptions)).join(' | ');
+    const union = value.oneOf || value.anyOf;
+    if (Array.isArray(union)) {
+      const { discriminator } = value;
+      return union
+        .map((def, i): string => {
+          const memberType = getType(def, getNestedName(nestedName, `${i + 1}`), getTypeOptions);
+          // Tag discriminated members, e.g. `(Cat & { petType: 'Cat' })`
+          return discriminator && def.$ref
+            ? `(${memberType} & { ${getDiscriminatorTag(discriminator, def.$ref)} })`
+            : memberType;
+        })
+        .join(' | ');
     }
 
-    if (value.properties) {
+    // allOf with nothing to merge into an interface is an intersection, e.g. `UserID & string`
+    const isIntersection =
+      Array.isArray(value.allOf) &&
+      !value.properties &&
+      value.allOf.every((member) => !member.properties && !member.allOf);
+    if (isIntersection) {
+      return (value.allOf as Swagger2Definition[])
+        .map((member, i) => getType(member, getNestedName(nestedName, `${i + 1}`), getTypeOptions))
+        .map((memberType) => (/[|&]/.test(memberType) ? `(${memberType.trim()})` : memberType))
+        .join(' & ');
+    }
+
+    if (value.properties || value.allOf) {
       // If this is a nested object, let’s add it to the stack for later
-      queue.push([nextInterface, { $ref, items, type, ...value }]);
-      return nextInterface;
+      if (usesInputVariant(definition)) {
+        return getInputVariant(nestedName, definition);
+      }
+      return queueNested(definition);
+    }
+
+    // Named enums are written out separately, like nested objects
+    if (enumStyle !== 'inline' && Array.isArray(value.enum)) {
+      return queueNested(definition);
+    }
+
+    // Brands come from x-brand, or from formats listed in the brands option
+    if (type && PRIMITIVE[type]) {
+      if (typeof value['x-brand'] === 'string') {
+        return getBrandedType(value['x-brand'], value['x-brand'], PRIMITIVE[type]);
+      }
+      if (value.format && brands[value.format]) {
+        return getBrandedType(brands[value.format], value.format, PRIMITIVE[type]);
+      }
+    }
+
+    // A mapped format wins over the type, e.g. `date-time` -> `Date | string`
+    if (value.format && formats[value.format]) {
+      return formats[value.format];
+    }
+
+    // An array without `items` can hold anything; so can a `file` (form) parameter, which is
+    // whatever the client uploads
+    if (type === 'array') {
+      return getArrayType('unknown', isImmutable);
+    }
+    if (type === 'file') {
+      return 'unknown';
     }
 
     if (type) {
       return PRIMITIVE[type] || type || DEFAULT_TYPE;
     }
 
+    // TypeScript can’t express “anything but”; see getComment()
+    if (value.not) {
+      return 'unknown';
+    }
+
     return DEFAULT_TYPE;
   }
 
+  // Enums are written inline; everything else goes through getType()
+  function getPropertyType(value: Swagger2Definition, nestedName: string): string {
+    if (enumStyle === 'inline' && Array.isArray(value.enum)) {
+      const enumType = getEnumType(value.enum);
+      return isNullable(value) && value.enum.indexOf(null) === -1 ? `${enumType} | null` : enumType;
+    }
+    return getType(value, nestedName, { camelcase: shouldCamelCase });
+  }
+
+  // Title and description, followed by JSDoc tags for the rest of the schema’s metadata
+  function getComment(value: Swagger2Definition, extraTags: string[] = []): string | undefined {
+    const paragraphs: string[] = [];
+    if (value.title) {
+      paragraphs.push(value.title);
+    }
+    if (value.description) {
+      paragraphs.push(value.description.replace(/\n$/, ''));
+    }
+    if (value.not) {
+      paragraphs.push(`Must not match \`${JSON.stringify(value.not)}\``);
+    }
+
+    const tags: string[] = [];
+    if (value.default !== undefined) {
+      tags.push(`@default ${JSON.stringify(value.default)}`);
+    }
+    if (value.example !== undefined) {
+      tags.push(`@example ${JSON.stringify(value.example)}`);
+    }
+    ['format', 'pattern', 'minimum', 'maximum', 'minLength', 'maxLength'].forEach((key): void => {
+      if (value[key] !== undefined) {
+        tags.push(`@${key} ${value[key]}`);
+      }
+    });
+    if (value.deprecated) {
+      tags.push('@deprecated');
+    }
+    if (value.externalDocs && value.externalDocs.url) {
+      const { description, url } = value.externalDocs;
+      tags.push(`@see ${url}${description ? ` ${description}` : ''}`);
+    }
+    tags.push(...extraTags);
+    if (tags.length) {
+      paragraphs.push(tags.join('\n'));
+    }
+
+    return paragraphs.length ? paragraphs.join('\n\n') : undefined;
+  }
+
+  function printDescription(description: string): void {
+    output.push(formatComment(description));
+  }
+
+  // Top-level definitions are documented above their export; nested ones already are, above the
+  // property that holds them
+  function printDefinitionComment(ID: string, definition: Swagger2Definition): void {
+    if (definitions[ID] !== definition) {
+      return;
+    }
+    // A name that had to be changed to be valid keeps a note of the one in the spec
+    const original = getTypeName(ID, options) === getInterfaceName(ID) ? [] : [`@original ${ID}`];
+    const comment = getComment(definition, original);
+    if (comment) {
+      printDescription(comment);
+    }
+  }
+
   function handleAdditionalProperties(additionalProperties: boolean | Swagger2Definition): string {
     if ((additionalProperties as Swagger2Definition).type) {
       const interfaceType = getType(additionalProperties as Swagger2Definition, '', {
         camelcase: shouldCamelCase,
       });
-      return `[key: string]: ${interfaceType}`;
+      return `${readonly}[key: string]: ${interfaceType}`;
+    }
+
+    return `${readonly}[key: string]: any;`;
+  }
+
+  // Whether an enum is written as an `enum` or `as const` object, rather than a union
+  function isEnumerable(definition: Swagger2Definition): boolean {
+    const values: unknown[] = definition.enum || [];
+    return (
+      enumStyle !== 'union' &&
+      values.every((value) => ['number', 'string'].indexOf(typeof value) !== -1)
+    );
+  }
+
+  // Member names can be given with x-enum-varnames (or NSwag’s x-enumNames). Values that would
+  // get the same name are numbered, e.g. `Etc/GMT+0` and `Etc/GMT-0` -> `EtcGMT0`, `EtcGMT02`.
+  function getEnumMembers(definition: Swagger2Definition): string[][] {
+    const values: unknown[] = definition.enum || [];
+    const varnames: string[] = definition['x-enum-varnames'] || definition['x-enumNames'] || [];
+    const memberNames: { [name: string]: boolean } = {};
+    return values.map((value, i) => [
+      sanitize(getUniqueName(varnames[i] || getEnumMemberName(value), memberNames)),
+      JSON.stringify(value),
+    ]);
+  }
+
+  // `export type Status = …`, `export enum Status {…}` or `export const Status = {…} as const`
+  function buildEnum(name: string, definition: Swagger2Definition): void {
+    if (!isEnumerable(definition)) {
+      output.push(`export type ${name} =${getEnumType(definition.enum || [])};`);
+      return;
+    }
+
+    const members = getEnumMembers(definition);
+    if (enumStyle === 'enum') {
+      output.push(`export enum ${name} {`);
+      members.forEach(([member, value]) => output.push(`${member} = ${value},`));
+      output.push('}');
+      return;
+    }
+    output.push(`export const ${name} = {`);
+    members.forEach(([member, value]) => output.push(`${member}: ${value},`));
+    output.push('} as const;');
+    output.push(`export type ${name} = typeof ${name}[keyof typeof ${name}];`);
+  }
+
+  // Merges the properties (and `required`) of inline allOf members. When members disagree on a
+  // property’s type, it’s reported, and the property has to match both.
+  function mergeProperties(
+    ID: string,
+    members: Swagger2Definition[]
+  ): { properties: { [key: string]: Swagger2Definition }; required: string[] } {
+    const properties: { [key: string]: Swagger2Definition } = {};
+    const required: string[] = [];
+    members.forEach((member): void => {
+      Object.entries(member.properties || {}).forEach(([key, value]): void => {
+        const existing = properties[key];
+        if (!existing) {
+          properties[key] = value;
+        } else if (getTypeSignature(existing) === getTypeSignature(value)) {
+          properties[key] = { ...existing, ...value };
+        } else {
+          console.warn(
+            `allOf members of ${ID} disagree on the type of "${key}"; it will need to match both.`
+          );
+          properties[key] = {
+            allOf: [existing, value],
+            description: value.description || existing.description,
+          };
+        }
+      });
+      required.push(...(member.required || []));
+    });
+    return { properties, required };
+  }
+
+  function buildProperties(
+    ID: string,
+    properties: { [key: string]: Swagger2Definition },
+    required?: string[]
+  ): void {
+    Object.entries(properties).forEach(([key, value]): void => {
+      if (isLeftOut(value)) {
+        return;
+      }
+      const formattedKey = getPropertyName(key);
+      const newID = getNestedName(ID, formattedKey);
+      const interfaceType = getPropertyType(value, newID);
+
+      let property: Property = {
+        interfaceType,
+        optional: !Array.isArray(required) || required.indexOf(key) === -1,
+        description: getComment(value),
+      };
+      property = options.propertyMapper ? options.propertyMapper(value, property) : property;
+
+      const name = `${readonly}${sanitize(formattedKey)}${property.optional ? '?' : ''}`;
+
+      if (typeof property.description === 'string') {
+        printDescription(property.description);
+      }
+
+      if (value.additionalProperties) {
+        output.push(`${name}: { ${handleAdditionalProperties(value.additionalProperties)} }`);
+      } else {
+        output.push(`${name}: ${interfaceType};`);
+      }
+    });
+  }
+
+  // Properties of an object, including those of its allOf members, along with the ID of the
+  // definition their nested types are named after, and whether they’re required
+  function getAllProperties(
+    ID: string,
+    definition: Swagger2Definition,
+    seen: Swagger2Definition[] = []
+  ): { [key: string]: [Swagger2Definition, string, boolean] } {
+    if (seen.indexOf(definition) !== -1) {
+      return {};
     }
+    const all: { [key: string]: [Swagger2Definition, string, boolean] } = {};
+    (definition.allOf || []).forEach((member): void => {
+      const [memberID, resolved] = member.$ref ? getRef(member.$ref) : [ID, member];
+      Object.assign(all, getAllProperties(memberID, resolved, [...seen, definition]));
+    });
+    Object.entries(definition.properties || {}).forEach(([key, value]): void => {
+      all[key] = [value, ID, false];
+    });
+    (definition.required || []).forEach((key): void => {
+      if (all[key]) {
+        all[key][2] = true;
+      }
+    });
+    return all;
+  }
+
+  const context: GeneratorContext = {
+    brands,
+    definitions,
+    enumStyle,
+    formats,
+    operations,
+    output,
+    getAllProperties,
+    getDiscriminatorTag,
+    getEnumMembers,
+    getNestedName,
+    getNonNullable,
+    getOperationName,
+    getPropertyName,
+    getRef,
+    getSubtypes,
+    getType: (definition, nestedName) =>
+      getType(definition, nestedName, { camelcase: shouldCamelCase }),
+    getVariantName,
+    isEnumerable,
+    isLeftOut,
+    printDescription,
+  };
+  const buildConverters = createConverters(context);
+  const buildGuard = createGuards(context);
+  const buildMock = createMocks(context);
 
-    return '[key: string]: any;';
+  // Runtime companions of a type: converters (for objects), a type guard and a mock
+  function buildFunctions(
+    ID: string,
+    name: string,
+    definition: Swagger2Definition,
+    isObject: boolean,
+    nestedName = ID
+  ): void {
+    if (shouldWriteConverters && isObject) {
+      buildConverters(ID, name, definition);
+    }
+    if (shouldWriteGuards) {
+      buildGuard(ID, name, definition, isObject, nestedName);
+    }
+    if (shouldWriteMocks) {
+      buildMock(ID, name, definition, isObject, nestedName);
+    }
   }
 
   function buildNextInterface(): void {
     const nextObject = queue.pop();
     if (!nextObject) return; // Geez TypeScript it’s going to be OK
-    const [ID, { allOf, properties, required, additionalProperties, type }] = nextObject;
+    const [ID, definition] = nextObject;
+    isInput = nextObject[2] === true;
+    const name = getName(ID, definition, isInput);
+    // Skip if already written, e.g. as a nested object and again via a $ref pointing to it
+    if (generated[name] === definition) return;
+    generated[name] = definition;
+    const { allOf, properties, required, additionalProperties, type } = definition;
+
+    if (enumStyle !== 'inline' && Array.isArray(definition.enum)) {
+      printDefinitionComment(ID, definition);
+      buildEnum(name, definition);
+      buildFunctions(ID, name, definition, false);
+      return;
+    }
+
+    // Primitives, arrays, enums, unions and recursive $refs can’t be interfaces
+    const isObject = !!(properties || allOf || additionalProperties);
+    const isUnion = !!(definition.oneOf || definition.anyOf) && !isObject;
+    const isAlias =
+      !isObject &&
+      (!!definition.$ref ||
+        !!definition.items ||
+        Array.isArray(definition.enum) ||
+        (!!type && type !== 'object'));
+    if (isUnion || isAlias || typeAliases.indexOf(definition) !== -1) {
+      // Inline objects in an array need a name of their own, e.g. `type Users = UsersItem[]`
+      const nestedName = definition.items ? getNestedName(ID, 'Item') : ID;
+      const aliasType = getPropertyType(definition, nestedName);
+      printDefinitionComment(ID, definition);
+      // A definition named after its own brand is the branded type itself
+      if (aliasType === name && brandedTypes[name]) {
+        output.push(brandedTypes[name]);
+        brandedTypes[name] = '';
+        buildFunctions(ID, name, definition, false, nestedName);
+        return;
+      }
+      output.push(`export type ${name} = ${aliasType};`);
+      buildFunctions(ID, name, definition, false, nestedName);
+      return;
+    }
 
-    let allProperties = properties || {};
     const includes: string[] = [];
+    const inlineItems: Swagger2Definition[] = [];
 
     // Include allOf, if specified
     if (Array.isArray(allOf)) {
-      allOf.forEach((item): void => {
+      flattenAllOf(allOf).forEach((item): void => {
         // Add “implements“ if this references other items
         if (item.$ref) {
-          const [refName] = getRef(item.$ref);
-          includes.push(refName);
-        } else if (item.properties) {
-          allProperties = { ...allProperties, ...item.properties };
+          const [refName, refProperties] = getRef(item.$ref);
+          // Extend the discriminated base itself, not the union of its subtypes
+          if (!refProperties.discriminator) {
+            includes.push(getType(item, '', { camelcase: shouldCamelCase }));
+          } else {
+            includes.push(getVariantName(refName, refProperties));
+          }
+        } else {
+          inlineItems.push(item);
         }
       });
     }
 
     // If nothing’s here, let’s skip this one.
     if (
-      !Object.keys(allProperties).length &&
+      !Object.keys(properties || {}).length &&
+      !inlineItems.some((item) => !!Object.keys(item.properties || {}).length) &&
       additionalProperties !== true &&
       type &&
       PRIMITIVE[type]
     ) {
       return;
     }
+
+    printDefinitionComment(ID, definition);
+
+    // As a type, allOf becomes an intersection: `A & { … } & { … }`, with each inline schema kept
+    // as an object of its own. What’s required anywhere applies to all of them, as it does when
+    // they’re merged into an interface.
+    if (objectStyle === 'type') {
+      const allRequired = [{ required }, ...inlineItems].reduce(
+        (all: string[], object) => [...all, ...(object.required || [])],
+        []
+      );
+      const objects = [{ properties, required, additionalProperties }, ...inlineItems].filter(
+        (object) => object.properties || object.additionalProperties
+      );
+      if (!objects.length && !includes.length) {
+        objects.push({});
+      }
+      if (!objects.length) {
+        output.push(`export type ${name} = ${includes.join(' & ')};`);
+        buildFunctions(ID, name, definition, true);
+        return;
+      }
+      const intersection = includes.map((include) => `${include} & `).join('');
+      output.push(`export type ${name} = ${intersection}{`);
+      objects.forEach((object, i): void => {
+        if (i > 0) {
+          output.push('} & {');
+        }
+        buildProperties(ID, object.properties || {}, allRequired);
+        if (object.additionalProperties) {
+          output.push(handleAdditionalProperties(object.additionalProperties));
+        }
+      });
+      output.push('};');
+      buildFunctions(ID, name, definition, true);
+      return;
+    }
+
+    const merged = mergeProperties(ID, [{ properties, required }, ...inlineItems]);
+
     // Open interface
     const isExtending = includes.length ? ` extends ${includes.join(', ')}` : '';
-
-    output.push(
-      `export interface ${shouldCamelCase ? camelCase(ID) : snakeCase(ID)}${isExtending} {`
-    );
+    output.push(`export interface ${name}${isExtending} {`);
 
     // Populate interface
-    Object.entries(allProperties).forEach(([key, value]): void => {
-      const formattedKey = shouldCamelCase ? camelCase(key) : key;
-      const newID = `${ID}${capitalize(formattedKey)}`;
-      const interfaceType = Array.isArray(value.enum)
-        ? ` ${value.enum.map((option) => JSON.stringify(option)).join(' | ')}` // Handle enums in the same definition
-        : getType(value, newID, { camelcase: shouldCamelCase });
+    buildProperties(ID, merged.properties, merged.required);
 
-      let property: Property = {
-        interfaceType,
-        optional: !Array.isArray(required) || required.indexOf(key) === -1,
-        description: value.description,
-      };
-      property = options.propertyMapper ? options.propertyMapper(value, property) : property;
+    if (additionalProperties) {
+      output.push(handleAdditionalProperties(additionalProperties));
+    }
 
-      const name = `${sanitize(formattedKey)}${property.optional ? '?' : ''}`;
+    // Close interface
+    output.push('}');
 
-      if (typeof property.description === 'string') {
-        // Print out descriptions as jsdoc comments, but only if there’s something there (.*)
-        output.push(`/**\n* ${property.description.replace(/\n$/, '').replace(/\n/g, '\n* ')}\n*/`);
+    buildFunctions(ID, name, definition, true);
+  }
+
+  function getStatusCodeKey(statusCode: string): string {
+    return /^\d+$/.test(statusCode) ? statusCode : sanitize(statusCode);
+  }
+
+  function buildParameters(parameters: OperationParameter[], operationName: string): void {
+    parameters.forEach((parameter): void => {
+      if (parameter.description) {
+        printDescription(parameter.description);
       }
+      const interfaceType = getPropertyType(
+        parameter.schema,
+        getNestedName(operationName, parameter.name)
+      );
+      const name = `${readonly}${sanitize(parameter.name)}${parameter.required ? '' : '?'}`;
+      output.push(`${name}: ${interfaceType};`);
+    });
+  }
 
-      if (value.additionalProperties) {
-        output.push(`${name}: { ${handleAdditionalProperties(value.additionalProperties)} }`);
-      } else {
-        output.push(`${name}: ${interfaceType};`);
+  function buildOperation(operation: Operation): void {
+    const { method, operationId, parameters, requestBody, responses } = operation;
+    const operationName = getOperationName(operation);
+
+    if (operation.description) {
+      printDescription(operation.description);
+    }
+    output.push(`${method}: {`);
+
+    // Operations with an operationId have their own namespace to point to
+    if (operationId) {
+      output.push(`parameters: ${operationName}.Params;`);
+      output.push('responses: {');
+      Object.keys(responses).forEach((statusCode): void => {
+        output.push(
+          `${getStatusCodeKey(statusCode)}: ${operationName}.Response${capitalize(statusCode)};`
+        );
+      });
+      output.push('}');
+      output.push('}');
+      return;
+    }
+
+    output.push('parameters: {');
+    PARAMETER_LOCATIONS.forEach((location): void => {
+      const group = parameters.filter((parameter) => parameter.in === location);
+      if (!group.length) {
+        return;
       }
+      const isOptional = group.every((parameter) => !parameter.required);
+      output.push(`${location}${isOptional ? '?' : ''}: {`);
+      buildParameters(group, operationName);
+      output.push('}');
     });
+    if (requestBody) {
+      if (requestBody.description) {
+        printDescription(requestBody.description);
+      }
+      isInput = shouldUseInputTypes;
+      const interfaceType = getPropertyType(
+        requestBody.schema,
+        getNestedName(operationName, 'Body')
+      );
+      isInput = false;
+      output.push(`body${requestBody.required ? '' : '?'}: ${interfaceType};`);
+    }
+    output.push('}');
 
-    if (additionalProperties) {
-      output.push(handleAdditionalProperties(additionalProperties));
+    output.push('responses: {');
+    Object.entries(responses).forEach(([statusCode, response]): void => {
+      if (response.description) {
+        printDescription(response.description);
+      }
+      const interfaceType = response.schema
+        ? getPropertyType(response.schema, getNestedName(operationName, statusCode))
+        : 'unknown';
+      output.push(`${getStatusCodeKey(statusCode)}: ${interfaceType};`);
+    });
+    output.push('}');
+
+    output.push('}');
+  }
+
+  // e.g. `ListCharges.QueryParams`, `ListCharges.Response200`
+  function buildOperationNamespace(operation: Operation): void {
+    const { parameters, requestBody, responses } = operation;
+    const operationName = getOperationName(operation);
+    const params: string[] = [];
+
+    if (operation.description) {
+      printDescription(operation.description);
     }
+    output.push(`export namespace ${operationName} {`);
+
+    PARAMETER_LOCATIONS.forEach((location): void => {
+      const group = parameters.filter((parameter) => parameter.in === location);
+      if (!group.length) {
+        return;
+      }
+      const groupName = `${capitalize(location)}Params`;
+      const isOptional = group.every((parameter) => !parameter.required);
+      output.push(`export interface ${groupName} {`);
+      buildParameters(group, operationName);
+      output.push('}');
+      params.push(`${location}${isOptional ? '?' : ''}: ${groupName};`);
+    });
+    if (requestBody) {
+      if (requestBody.description) {
+        printDescription(requestBody.description);
+      }
+      isInput = shouldUseInputTypes;
+      const interfaceType = getPropertyType(
+        requestBody.schema,
+        getNestedName(operationName, 'Body')
+      );
+      isInput = false;
+      output.push(`export type Body = ${interfaceType};`);
+      params.push(`body${requestBody.required ? '' : '?'}: Body;`);
+    }
+    output.push('export interface Params {', ...params, '}');
+
+    Object.entries(responses).forEach(([statusCode, response]): void => {
+      if (response.description) {
+        printDescription(response.description);
+      }
+      const interfaceType = response.schema
+        ? getPropertyType(response.schema, getNestedName(operationName, statusCode))
+        : 'unknown';
+      output.push(`export type Response${capitalize(statusCode)} = ${interfaceType};`);
+    });
 
-    // Close interface
     output.push('}');
   }
 
-  // Begin parsing top-level entries
-  Object.entries(definitions).forEach((entry): void => {
-    const value = entry[1];
-    // start with objects only
-    const isObject = value.type === 'object';
-    const isAssumedObject = !value.type;
-    if (isObject || isAssumedObject) {
-      queue.push(entry);
+  // Begin parsing top-level entries; every definition gets a name, then every operation namespace,
+  // before anything else does
+  const topLevel = Object.entries(definitions).sort((a, b) => a[0].localeCompare(b[0]));
+  topLevel.forEach(([ID, definition]) => getName(ID, definition));
+  operations.forEach((operation) => getOperationName(operation));
+  topLevel.forEach(([ID, definition]): void => {
+    // Pair definitions with readOnly or writeOnly properties with their `…Input` variant
+    if (shouldUseInputTypes && hasInputVariant(definition)) {
+      queue.push([ID, definition, true]);
     }
+    queue.push([ID, definition]);
   });
-  queue.sort((a, b) => a[0].localeCompare(b[0]));
   while (queue.length > 0) {
     buildNextInterface();
   }
 
+  // Then operations, grouped by URL
+  if (operations.length) {
+    isInput = false;
+    output.push('export interface paths {');
+    Array.from(new Set(operations.map((operation) => operation.path))).forEach((path): void => {
+      output.push(`${sanitize(path)}: {`);
+      operations
+        .filter((operation) => operation.path === path)
+        .forEach((operation) => buildOperation(operation));
+      output.push('}');
+    });
+    output.push('}');
+    operations
+      .filter((operation) => !!operation.operationId)
+      .forEach((operation) => buildOperationNamespace(operation));
+    // Inline schemas found in operations are queued like any other nested object
+    while (queue.length > 0) {
+      buildNextInterface();
+    }
+  }
+
+  output.push(...Object.values(brandedTypes).filter((declaration) => !!declaration));
+
+  if (shouldWriteConverters) {
+    output.push(CONVERTER_HELPERS);
+  }
+
+  if (shouldWriteClient) {
+    buildClient(context);
+  }
+
   if (wrapper && shouldUseWrapper) {
     output.push('}'); // Close namespace
   }
@@ -251,4 +1299,79 @@ function parse(spec: Swagger2, options: Swagger2Options = {}): string {
   return prettier.format(output.join('\n'), { parser: 'typescript', singleQuote: true });
 }
 
+function getOperations(spec: Swagger2): Operation[] {
+  const operations: Operation[] = [];
+
+  Object.entries(spec.paths || {}).forEach(([path, pathItem]): void => {
+    METHODS.forEach((method): void => {
+      const operation = pathItem[method as keyof Swagger2PathItem] as Swagger2Operation | undefined;
+      if (!operation) {
+        return;
+      }
+
+      const parameters: OperationParameter[] = [];
+      let requestBody: Operation['requestBody'];
+      mergeParameters(spec, pathItem.parameters, operation.parameters).forEach(
+        (parameter): void => {
+          // Non-body parameters hold their schema inline (type, format, items…)
+          const {
+            collectionFormat,
+            description,
+            in: location,
+            name,
+            required,
+            ...inline
+          } = parameter;
+          if (location === 'body') {
+            requestBody = { description, required: !!required, schema: inline.schema || {} };
+            return;
+          }
+          if (!location || !name) {
+            return;
+          }
+          parameters.push({
+            collectionFormat,
+            description,
+            in: location,
+            name,
+            required: location === 'path' || !!required,
+            schema: inline,
+          });
+        }
+      );
+
+      const responses: Operation['responses'] = {};
+      Object.entries(operation.responses || {}).forEach(([statusCode, value]): void => {
+        const { description, schema } = resolveRef<Swagger2Response>(spec, value);
+        responses[statusCode] = { description, schema };
+      });
+
+      operations.push({
+        description: operation.summary || operation.description,
+        method,
+        operationId: operation.operationId,
+        parameters,
+        path,
+        requestBody,
+        responses,
+      });
+    });
+  });
+
+  return operations;
+}
+
+function parse(spec: Swagger2, options: Swagger2Options = {}): string {
+  return generate(
+    {
+      defaultWrapper: 'declare namespace OpenAPI2',
+      definitions: spec.definitions || {},
+      operations: getOperations(spec),
+      refPrefix: '#/definitions/',
+      spec,
+    },
+    options
+  );
+}
+
 export default parse;
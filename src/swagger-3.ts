@@ -0,0 +1,188 @@
+import {
+  generate,
+  mergeParameters,
+  METHODS,
+  Operation,
+  OperationParameter,
+  Swagger2Definition,
+  Swagger2Options,
+} from './swagger-2';
+import { resolveRef } from './utils';
+
+export interface OpenAPI3SchemaObject extends Swagger2Definition {
+  allOf?: OpenAPI3SchemaObject[];
+  anyOf?: OpenAPI3SchemaObject[];
+  items?: OpenAPI3SchemaObject;
+  nullable?: boolean;
+  oneOf?: OpenAPI3SchemaObject[];
+  properties?: { [index: string]: OpenAPI3SchemaObject };
+  additionalProperties?: boolean | OpenAPI3SchemaObject;
+}
+
+export interface OpenAPI3MediaType {
+  schema?: OpenAPI3SchemaObject;
+}
+
+export interface OpenAPI3Parameter {
+  $ref?: string;
+  content?: { [mediaType: string]: OpenAPI3MediaType };
+  description?: string;
+  explode?: boolean;
+  in?: 'cookie' | 'header' | 'path' | 'query';
+  name?: string;
+  required?: boolean;
+  schema?: OpenAPI3SchemaObject;
+  style?: string;
+}
+
+export interface OpenAPI3RequestBody {
+  $ref?: string;
+  content?: { [mediaType: string]: OpenAPI3MediaType };
+  description?: string;
+  required?: boolean;
+}
+
+export interface OpenAPI3Response {
+  $ref?: string;
+  content?: { [mediaType: string]: OpenAPI3MediaType };
+  description?: string;
+}
+
+export interface OpenAPI3Operation {
+  description?: string;
+  operationId?: string;
+  parameters?: OpenAPI3Parameter[];
+  requestBody?: OpenAPI3RequestBody;
+  responses?: { [statusCode: string]: OpenAPI3Response };
+  summary?: string;
+}
+
+export interface OpenAPI3PathItem {
+  delete?: OpenAPI3Operation;
+  get?: OpenAPI3Operation;
+  head?: OpenAPI3Operation;
+  options?: OpenAPI3Operation;
+  parameters?: OpenAPI3Parameter[];
+  patch?: OpenAPI3Operation;
+  post?: OpenAPI3Operation;
+  put?: OpenAPI3Operation;
+  trace?: OpenAPI3Operation;
+}
+
+export interface OpenAPI3 {
+  openapi: string;
+  components?: {
+    parameters?: { [index: string]: OpenAPI3Parameter };
+    requestBodies?: { [index: string]: OpenAPI3RequestBody };
+    responses?: { [index: string]: OpenAPI3Response };
+    schemas?: {
+      [index: string]: OpenAPI3SchemaObject;
+    };
+  };
+  paths?: { [url: string]: OpenAPI3PathItem };
+}
+
+export type OpenAPI3Options = Swagger2Options;
+
+// Prefer JSON when an operation accepts or returns several media types
+function getContentSchema(content?: {
+  [mediaType: string]: OpenAPI3MediaType;
+}): OpenAPI3SchemaObject | undefined {
+  if (!content) {
+    return undefined;
+  }
+  const mediaType =
+    Object.keys(content).find((type) => /\bjson\b/.test(type)) || Object.keys(content)[0];
+  return mediaType ? content[mediaType].schema : undefined;
+}
+
+// Translates `style`/`explode` into the Swagger 2 equivalent
+function getCollectionFormat({ explode, style = 'form' }: OpenAPI3Parameter): string | undefined {
+  switch (style) {
+    case 'form':
+      return explode === false ? 'csv' : 'multi';
+    case 'spaceDelimited':
+      return 'ssv';
+    case 'pipeDelimited':
+      return 'pipes';
+    default:
+      return undefined;
+  }
+}
+
+function getOperations(spec: OpenAPI3): Operation[] {
+  const operations: Operation[] = [];
+
+  Object.entries(spec.paths || {}).forEach(([path, pathItem]): void => {
+    METHODS.forEach((method): void => {
+      const operation = pathItem[method as keyof OpenAPI3PathItem] as OpenAPI3Operation | undefined;
+      if (!operation) {
+        return;
+      }
+
+      const parameters: OperationParameter[] = [];
+      mergeParameters(spec, pathItem.parameters, operation.parameters).forEach(
+        (parameter): void => {
+          const { content, description, in: location, name, required, schema } = parameter;
+          if (!location || !name) {
+            return;
+          }
+          parameters.push({
+            collectionFormat: getCollectionFormat(parameter),
+            description,
+            in: location,
+            name,
+            required: location === 'path' || !!required,
+            schema: schema || getContentSchema(content) || {},
+          });
+        }
+      );
+
+      let requestBody: Operation['requestBody'];
+      if (operation.requestBody) {
+        const { content, description, required } = resolveRef<OpenAPI3RequestBody>(
+          spec,
+          operation.requestBody
+        );
+        requestBody = {
+          description,
+          required: !!required,
+          schema: getContentSchema(content) || {},
+        };
+      }
+
+      const responses: Operation['responses'] = {};
+      Object.entries(operation.responses || {}).forEach(([statusCode, value]): void => {
+        const { content, description } = resolveRef<OpenAPI3Response>(spec, value);
+        responses[statusCode] = { description, schema: getContentSchema(content) };
+      });
+
+      operations.push({
+        description: operation.summary || operation.description,
+        method,
+        operationId: operation.operationId,
+        parameters,
+        path,
+        requestBody,
+        responses,
+      });
+    });
+  });
+
+  return operations;
+}
+
+function parse(spec: OpenAPI3, options: OpenAPI3Options = {}): string {
+  return generate(
+    {
+      defaultWrapper: 'declare namespace OpenAPI3',
+      definitions: (spec.components && spec.components.schemas) || {},
+      operations: getOperations(spec),
+      refPrefix: '#/components/schemas/',
+      spec,
+    },
+    options
+  );
+}
+
+export default parse;
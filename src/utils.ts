@@ -1,3 +1,16 @@
+export const warningMessage = `/**
+ * This file was auto-generated by swagger-to-ts.
+ * Do not make direct changes to the file.
+ */
+`;
+
+// Swagger types that are TypeScript primitives, by the name TypeScript gives them
+export const PRIMITIVE: { [index: string]: string } = {
+  string: 'string',
+  integer: 'number',
+  number: 'number',
+};
+
 export function capitalize(str: string): string {
   return `${str[0].toUpperCase()}${str.slice(1)}`;
 }
@@ -8,22 +21,154 @@ export function camelCase(name: string): string {
   );
 }
 
+// e.g. `get /regions/{id}` -> `GetRegionsId`
+export function pascalCase(name: string): string {
+  return name
+    .split(/[^a-z0-9]+/i)
+    .filter((part) => !!part)
+    .map(capitalize)
+    .join('');
+}
+
+// Words that can’t name a type: reserved words, and the built-in types
+const RESERVED_WORDS = `any as await bigint boolean break case catch class const continue debugger
+default delete do else enum export extends false finally for function if implements import in
+instanceof interface let never new null number object package private protected public return
+static string super switch symbol this throw true try typeof undefined unknown var void while
+with yield`.split(/\s+/);
+
+export function isIdentifier(name: string): boolean {
+  return /^[\p{ID_Start}_$][\p{ID_Continue}$\u200c\u200d]*$/u.test(name);
+}
+
+// Quotes property keys that aren’t identifiers, e.g. `'@type'` or `'1st'`
 export function sanitize(name: string): string {
-  const sanitized = `'${name}'`;
+  if (isIdentifier(name)) {
+    return name;
+  }
+  return `'${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+// Makes any name a valid type name: characters that can’t be in an identifier become `_`, and
+// names that are reserved, or don’t start with a letter, are prefixed with `_` (`default` ->
+// `_default`, `1stParty` -> `_1stParty`)
+export function toIdentifier(name: string): string {
+  const identifier = name.replace(/[^\p{ID_Continue}$\u200c\u200d]/gu, '_');
+  return isIdentifier(identifier) && RESERVED_WORDS.indexOf(identifier) === -1
+    ? identifier
+    : `_${identifier}`;
+}
+
+// The first of `name`, `name2`, `name3`… that isn’t taken yet, which is then marked as taken
+export function getUniqueName(name: string, taken: { [name: string]: boolean }): string {
+  let uniqueName = name;
+  for (let i = 2; taken[uniqueName]; i += 1) {
+    uniqueName = `${name}${i}`;
+  }
+  taken[uniqueName] = true;
+  return uniqueName;
+}
+
+// getUniqueName() for a type named after `ID` in the spec, warning when it had to be numbered
+export function getUniqueTypeName(
+  ID: string,
+  name: string,
+  taken: { [name: string]: boolean }
+): string {
+  const uniqueName = getUniqueName(name, taken);
+  if (uniqueName !== name) {
+    console.warn(
+      `${ID} would be named ${name}, which is already taken; using ${uniqueName} instead.`
+    );
+  }
+  return uniqueName;
+}
+
+// A function named after a type, such as `isUser` for `User`. Names that don’t start with a capital
+// are kept apart with an underscore (`is_user` for `user`), so two types never share a function.
+export function prefixName(prefix: string, name: string): string {
+  const first = name.charAt(0);
+  return first !== first.toLowerCase() ? `${prefix}${name}` : `${prefix}_${name}`;
+}
 
-  // if key starts with number
-  if (/^\d/.test(name)) {
-    return sanitized;
+// Enums written as objects, functions and schemas exist at runtime, which a `declare` block can’t
+// hold; `option` is the one asking for them, e.g. `enums: "enum"`
+export function checkWrapper(option: string, wrapper: string): void {
+  if (/^declare\b/.test(wrapper)) {
+    throw new Error(
+      `${option} can’t be used with a "${wrapper}" wrapper. Use a wrapper such as "export namespace API", or none.`
+    );
   }
+}
 
-  // if key contains invalid charactors
-  if (/[-@./\\]/.test(name)) {
-    return sanitized;
+// Swagger 2 uses the x-nullable extension; OpenAPI 3 has `nullable`
+export function isNullable(definition: { [key: string]: unknown }): boolean {
+  return definition.nullable === true || definition['x-nullable'] === true;
+}
+
+// The name the naming options give a definition, before it’s made a valid identifier
+export function getTypeName(
+  ID: string,
+  {
+    camelcase,
+    naming,
+  }: { camelcase?: boolean; naming?: { types?: 'keep' | 'pascal' | ((name: string) => string) } }
+): string {
+  const types = (naming && naming.types) || (camelcase ? camelCase : 'keep');
+  if (typeof types === 'function') {
+    return types(ID);
   }
+  return types === 'pascal' ? pascalCase(ID) : ID;
+}
 
-  return name;
+// Descriptions (and other documentation) as a JSDoc comment, which a `*/` in them can’t end early
+export function formatComment(text: string): string {
+  const body = text.replace(/\n$/, '').replace(/\*\//g, '*\\/');
+  return `/**\n* ${body.replace(/\n/g, '\n* ')}\n*/`;
 }
 
 export function snakeCase(name: string): string {
   return name.replace(/[-\.\s]/g, '_');
 }
+
+// Splits a JSON Pointer (RFC 6901), either plain (`/a/b`) or as a URI fragment (`#/a/b`), into
+// its unescaped reference tokens
+export function parsePointer(pointer: string): string[] {
+  const path = pointer.startsWith('#') ? decodeURIComponent(pointer.slice(1)) : pointer;
+  if (path === '') {
+    return [];
+  }
+  if (!path.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer: ${pointer}`);
+  }
+  return path
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+// Looks up a JSON Pointer within a document, throwing if nothing’s there
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function resolvePointer(doc: object, pointer: string): any {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return parsePointer(pointer).reduce((node: any, token: string) => {
+    const isIndex = Array.isArray(node) && /^(0|[1-9]\d*)$/.test(token);
+    const exists =
+      node && typeof node === 'object' && (isIndex || !Array.isArray(node))
+        ? Object.prototype.hasOwnProperty.call(node, token)
+        : false;
+    if (!exists) {
+      throw new Error(`Could not resolve ${pointer}`);
+    }
+    return node[token];
+  }, doc);
+}
+
+// Follows local `#/…` $refs (e.g. to shared parameters or responses) until reaching a real value
+export function resolveRef<T>(spec: object, value: T | { $ref?: string }): T {
+  const { $ref } = value as { $ref?: string };
+  if (typeof $ref !== 'string' || !$ref.startsWith('#')) {
+    return value as T;
+  }
+  return resolveRef<T>(spec, resolvePointer(spec, $ref));
+}
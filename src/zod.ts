@@ -0,0 +1,290 @@
+import * as prettier from 'prettier';
+import { GenerateInput, Swagger2Definition, Swagger2Options } from './swagger-2';
+import {
+  checkWrapper,
+  formatComment,
+  getTypeName,
+  getUniqueTypeName,
+  isNullable,
+  parsePointer,
+  resolvePointer,
+  sanitize,
+  toIdentifier,
+  warningMessage,
+} from './utils';
+
+function getEnumSchema(values: unknown[]): string {
+  const options = values.filter((value) => value !== null);
+  if (options.length && options.every((value) => typeof value === 'string')) {
+    return `z.enum([${options.map((value) => JSON.stringify(value)).join(', ')}])`;
+  }
+  const literals = options.map((value) => `z.literal(${JSON.stringify(value)})`);
+  if (literals.length < 2) {
+    return literals.length ? literals[0] : 'z.never()';
+  }
+  return `z.union([${literals.join(', ')}])`;
+}
+
+// Parenthesizes unions and intersections before adding `[]`
+function getArrayType(itemType: string): string {
+  return /[|&]/.test(itemType) ? `(${itemType})[]` : `${itemType}[]`;
+}
+
+/**
+ * Writes a zod schema for every definition, each followed by its type (`z.infer`). Schemas are
+ * written before the ones that use them; $refs back to a schema that isn’t written yet (recursion)
+ * go through `z.lazy()`. zod can’t infer the type of such a schema, so it’s written out, and the
+ * schema is annotated with it, e.g. `z.ZodType<Category>`.
+ */
+export default function generateZod(
+  { definitions, refPrefix, spec }: GenerateInput,
+  options: Swagger2Options = {}
+): string {
+  // zod schemas exist at runtime, so there’s no wrapper unless one is asked for
+  const wrapper = typeof options.wrapper === 'string' ? options.wrapper : '';
+  checkWrapper('target: "zod"', wrapper);
+
+  const output: string[] = [];
+
+  if (options.warning !== false) {
+    output.push(warningMessage);
+  }
+  output.push(`import { z } from 'zod';`);
+
+  if (wrapper) {
+    output.push(`${wrapper} {`);
+  }
+
+  const definitionsPath = parsePointer(refPrefix.replace(/\/$/, ''));
+  const IDs = Object.keys(definitions).sort((a, b) => a.localeCompare(b));
+  const names: { [ID: string]: string } = {};
+  const takenNames: { [name: string]: boolean } = {};
+  const written: string[] = [];
+  const writing: string[] = []; // definitions being written, to catch recursive $refs
+  const lazy: { [ID: string]: boolean } = {}; // definitions referenced before they’re written
+
+  // Named the same way as the types, numbered if they’d collide
+  IDs.forEach((ID): void => {
+    names[ID] = getUniqueTypeName(ID, toIdentifier(getTypeName(ID, options)), takenNames);
+  });
+
+  // The definition a $ref points to, if it’s one; undefined for anything else, e.g.
+  // `#/definitions/User/properties/id`
+  function getDefinitionID($ref: string): string | undefined {
+    if (!$ref.startsWith('#')) {
+      throw new Error(
+        `Could not resolve ${$ref}. $refs to other files need to be bundled first (see bundle()).`
+      );
+    }
+    const path = parsePointer($ref);
+    const isDefinition =
+      path.length === definitionsPath.length + 1 &&
+      definitionsPath.every((token, i) => path[i] === token);
+    return isDefinition ? path[path.length - 1] : undefined;
+  }
+
+  function getSchema(definition: Swagger2Definition, seen: string[] = []): string {
+    const { $ref, additionalProperties, allOf, items, properties, required, type } = definition;
+
+    if (isNullable(definition) || (definition.enum || []).indexOf(null) !== -1) {
+      const nonNullable = { ...definition, nullable: false, 'x-nullable': false };
+      if (definition.enum) {
+        nonNullable.enum = definition.enum.filter((value) => value !== null);
+      }
+      return `${getSchema(nonNullable, seen)}.nullable()`;
+    }
+
+    if ($ref) {
+      const ID = getDefinitionID($ref);
+      // Anything but a definition is written in place
+      if (ID === undefined) {
+        return seen.indexOf($ref) === -1
+          ? getSchema(resolvePointer(spec, $ref), [...seen, $ref])
+          : 'z.unknown()';
+      }
+      if (writing.indexOf(ID) !== -1) {
+        lazy[ID] = true;
+        return `z.lazy(() => ${names[ID]}Schema)`;
+      }
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      writeSchema(ID);
+      return `${names[ID]}Schema`;
+    }
+
+    if (Array.isArray(definition.enum)) {
+      return getEnumSchema(definition.enum);
+    }
+
+    const union = definition.oneOf || definition.anyOf;
+    if (Array.isArray(union)) {
+      const members = union.map((member) => getSchema(member, seen));
+      return members.length === 1 ? members[0] : `z.union([${members.join(', ')}])`;
+    }
+
+    if (Array.isArray(allOf)) {
+      // What’s required applies to the properties of inline members too, as it does for types
+      const members = allOf.map((member) =>
+        getSchema(
+          member.$ref || !required
+            ? member
+            : { ...member, required: [...(member.required || []), ...required] },
+          seen
+        )
+      );
+      if (properties) {
+        const ownProperties = { ...definition };
+        delete ownProperties.allOf;
+        members.push(getSchema(ownProperties, seen));
+      }
+      return members.reduce((intersection, member) => `${intersection}.and(${member})`);
+    }
+
+    if (items || type === 'array') {
+      return `z.array(${items ? getSchema(items, seen) : 'z.unknown()'})`;
+    }
+
+    if (properties || additionalProperties || type === 'object') {
+      const catchall =
+        typeof additionalProperties === 'object' ? getSchema(additionalProperties, seen) : '';
+      if (!properties && additionalProperties !== false) {
+        return `z.record(z.string(), ${catchall || 'z.unknown()'})`;
+      }
+      const shape = Object.entries(properties || {}).map(([key, value]): string => {
+        const isOptional = !Array.isArray(required) || required.indexOf(key) === -1;
+        return `${sanitize(key)}: ${getSchema(value, seen)}${isOptional ? '.optional()' : ''}`;
+      });
+      const schema = `z.object({ ${shape.join(', ')} })`;
+      if (catchall) {
+        return `${schema}.catchall(${catchall})`;
+      }
+      if (additionalProperties === true) {
+        return `${schema}.passthrough()`;
+      }
+      return additionalProperties === false ? `${schema}.strict()` : schema;
+    }
+
+    switch (type) {
+      case 'string':
+        return 'z.string()';
+      case 'integer':
+        return 'z.number().int()';
+      case 'number':
+        return 'z.number()';
+      case 'boolean':
+        return 'z.boolean()';
+      default:
+        return 'z.unknown()';
+    }
+  }
+
+  // What z.infer would make of the schema getSchema() writes, for schemas it can’t infer
+  function getType(definition: Swagger2Definition, seen: string[] = []): string {
+    const { $ref, additionalProperties, allOf, items, properties, required, type } = definition;
+
+    if (isNullable(definition) || (definition.enum || []).indexOf(null) !== -1) {
+      const nonNullable = { ...definition, nullable: false, 'x-nullable': false };
+      if (definition.enum) {
+        nonNullable.enum = definition.enum.filter((value) => value !== null);
+      }
+      return `${getType(nonNullable, seen)} | null`;
+    }
+
+    if ($ref) {
+      const ID = getDefinitionID($ref);
+      if (ID === undefined) {
+        return seen.indexOf($ref) === -1
+          ? getType(resolvePointer(spec, $ref), [...seen, $ref])
+          : 'unknown';
+      }
+      return names[ID];
+    }
+
+    if (Array.isArray(definition.enum)) {
+      const values = definition.enum.filter((value) => value !== null);
+      return values.length ? values.map((value) => JSON.stringify(value)).join(' | ') : 'never';
+    }
+
+    const union = definition.oneOf || definition.anyOf;
+    if (Array.isArray(union)) {
+      return union.map((member) => `(${getType(member, seen)})`).join(' | ');
+    }
+
+    if (Array.isArray(allOf)) {
+      const members = allOf.map((member) =>
+        getType(
+          member.$ref || !required
+            ? member
+            : { ...member, required: [...(member.required || []), ...required] },
+          seen
+        )
+      );
+      if (properties) {
+        const ownProperties = { ...definition };
+        delete ownProperties.allOf;
+        members.push(getType(ownProperties, seen));
+      }
+      return members.map((member) => `(${member})`).join(' & ');
+    }
+
+    if (items || type === 'array') {
+      return getArrayType(items ? getType(items, seen) : 'unknown');
+    }
+
+    if (properties || additionalProperties || type === 'object') {
+      const rest =
+        typeof additionalProperties === 'object' ? getType(additionalProperties, seen) : 'unknown';
+      if (!properties && additionalProperties !== false) {
+        return `{ [key: string]: ${rest} }`;
+      }
+      const shape = Object.entries(properties || {}).map(([key, value]): string => {
+        const isOptional = !Array.isArray(required) || required.indexOf(key) === -1;
+        return `${sanitize(key)}${isOptional ? '?' : ''}: ${getType(value, seen)};`;
+      });
+      const object = `{ ${shape.join(' ')} }`;
+      return additionalProperties ? `${object} & { [key: string]: ${rest} }` : object;
+    }
+
+    switch (type) {
+      case 'string':
+        return 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      default:
+        return 'unknown';
+    }
+  }
+
+  function writeSchema(ID: string): void {
+    if (written.indexOf(ID) !== -1 || writing.indexOf(ID) !== -1) {
+      return;
+    }
+    writing.push(ID);
+    const definition = definitions[ID];
+    const schema = getSchema(definition);
+    writing.pop();
+    written.push(ID);
+
+    const name = names[ID];
+    if (definition.description) {
+      output.push(formatComment(definition.description));
+    }
+    if (lazy[ID]) {
+      output.push(`export type ${name} = ${getType(definition)};`);
+      output.push(`export const ${name}Schema: z.ZodType<${name}> = ${schema};`);
+      return;
+    }
+    output.push(`export const ${name}Schema = ${schema};`);
+    output.push(`export type ${name} = z.infer<typeof ${name}Schema>;`);
+  }
+
+  IDs.forEach((ID) => writeSchema(ID));
+
+  if (wrapper) {
+    output.push('}'); // Close namespace
+  }
+
+  return prettier.format(output.join('\n'), { parser: 'typescript', singleQuote: true });
+}
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import swaggerToTS, { bundle } from '../src';
+import { Swagger2 } from '../src/swagger-2';
+
+const FIXTURES_DIR = path.resolve(__dirname, 'bundle');
+
+function load(filename: string): Swagger2 {
+  return yaml.safeLoad(fs.readFileSync(path.resolve(FIXTURES_DIR, filename), 'UTF-8'));
+}
+
+describe('bundle', () => {
+  const filename = path.resolve(FIXTURES_DIR, 'spec.yaml');
+
+  it('copies schemas from other files into definitions', () => {
+    const { definitions } = bundle(load('spec.yaml'), filename);
+    expect(Object.keys(definitions)).toEqual(['Customer', 'address', 'Money', 'Currency', 'Node']);
+    expect(definitions.Customer).toEqual({
+      properties: {
+        address: { $ref: '#/definitions/address' },
+        balance: { $ref: '#/definitions/Money' },
+        tree: { $ref: '#/definitions/Node' },
+      },
+      type: 'object',
+    });
+    // refs back into the spec itself, and cycles, stay as local refs
+    expect(definitions.address).toEqual({
+      properties: {
+        city: { type: 'string' },
+        resident: { $ref: '#/definitions/Customer' },
+      },
+      type: 'object',
+    });
+    expect(definitions.Node).toEqual({
+      properties: {
+        children: { items: { $ref: '#/definitions/Node' }, type: 'array' },
+      },
+      type: 'object',
+    });
+  });
+
+  it('inlines other $refs in place', () => {
+    const { paths = {} } = bundle(load('spec.yaml'), filename);
+    expect(paths['/customers'].get && paths['/customers'].get.parameters).toEqual([
+      { in: 'query', name: 'limit', type: 'integer' },
+    ]);
+  });
+
+  it('does not modify the original spec', () => {
+    const spec = load('spec.yaml');
+    const original = JSON.stringify(spec);
+    bundle(spec, filename);
+    expect(JSON.stringify(spec)).toBe(original);
+  });
+
+  it('throws on circular inlined $refs', () => {
+    expect(() =>
+      bundle(load('circular.yaml'), path.resolve(FIXTURES_DIR, 'circular.yaml'))
+    ).toThrow('Circular $ref');
+  });
+
+  it('generates types from the bundled spec', () => {
+    const output = swaggerToTS(bundle(load('spec.yaml'), filename), { warning: false });
+    expect(output).toContain('balance?: Money;');
+    expect(output).toContain('export interface Money {');
+    expect(output).toContain('currency: Currency;');
+    expect(output).toContain('export type Currency = string;');
+  });
+
+  it('explains unbundled $refs', () => {
+    expect(() => swaggerToTS(load('spec.yaml'), { warning: false })).toThrow(
+      'Could not resolve nested/address.yaml'
+    );
+  });
+});
@@ -1,4 +1,21 @@
-import { camelCase, capitalize, sanitize, snakeCase } from '../src/utils';
+import {
+  camelCase,
+  capitalize,
+  checkWrapper,
+  formatComment,
+  getTypeName,
+  getUniqueName,
+  getUniqueTypeName,
+  isNullable,
+  parsePointer,
+  pascalCase,
+  prefixName,
+  resolvePointer,
+  resolveRef,
+  sanitize,
+  snakeCase,
+  toIdentifier,
+} from '../src/utils';
 
 it('camelCase', () => {
   expect(camelCase('my-test-string')).toBe('myTestString');
@@ -21,10 +38,147 @@ describe('sanitize', () => {
     expect(sanitize('0')).toBe("'0'");
     expect(sanitize('@type')).toBe("'@type'");
     expect(sanitize('bad-key')).toBe("'bad-key'");
+    expect(sanitize('a+b:c')).toBe("'a+b:c'");
+    expect(sanitize("it's")).toBe("'it\\'s'");
+  });
+  it('allows reserved words and unicode', () => {
+    expect(sanitize('default')).toBe('default');
+    expect(sanitize('café')).toBe('café');
+  });
+});
+
+describe('toIdentifier', () => {
+  it('valid', () => {
+    expect(toIdentifier('User_1')).toBe('User_1');
+    expect(toIdentifier('$café')).toBe('$café');
+  });
+  it('replaces invalid characters', () => {
+    expect(toIdentifier('a+b:c')).toBe('a_b_c');
+    expect(toIdentifier('User 1 – Admin')).toBe('User_1___Admin');
+  });
+  it('prefixes reserved words and leading digits', () => {
+    expect(toIdentifier('default')).toBe('_default');
+    expect(toIdentifier('string')).toBe('_string');
+    expect(toIdentifier('1stParty')).toBe('_1stParty');
+    expect(toIdentifier('')).toBe('_');
+  });
+});
+
+it('getUniqueName', () => {
+  const taken: { [name: string]: boolean } = { User: true };
+  expect(getUniqueName('Team', taken)).toBe('Team');
+  expect(getUniqueName('User', taken)).toBe('User2');
+  expect(getUniqueName('User', taken)).toBe('User3');
+  expect(taken).toEqual({ Team: true, User: true, User2: true, User3: true });
+});
+
+it('getUniqueTypeName', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  const taken: { [name: string]: boolean } = { foo_bar: true };
+  expect(getUniqueTypeName('foo-bar', 'foo_bar', taken)).toBe('foo_bar2');
+  expect(warn).toHaveBeenCalledWith(
+    'foo-bar would be named foo_bar, which is already taken; using foo_bar2 instead.'
+  );
+  warn.mockRestore();
+});
+
+it('isNullable', () => {
+  expect(isNullable({ nullable: true })).toBe(true);
+  expect(isNullable({ 'x-nullable': true })).toBe(true);
+  expect(isNullable({ type: 'string' })).toBe(false);
+});
+
+describe('getTypeName', () => {
+  it('keeps names by default', () => {
+    expect(getTypeName('user_profile', {})).toBe('user_profile');
+  });
+  it('follows the naming options', () => {
+    expect(getTypeName('user_profile', { camelcase: true })).toBe('userProfile');
+    expect(getTypeName('user_profile', { naming: { types: 'pascal' } })).toBe('UserProfile');
+    expect(getTypeName('user', { naming: { types: (name) => `Api${name}` } })).toBe('Apiuser');
   });
 });
 
+it('checkWrapper', () => {
+  expect(() => checkWrapper('guards', 'export namespace API')).not.toThrow();
+  expect(() => checkWrapper('guards', '')).not.toThrow();
+  expect(() => checkWrapper('guards', 'declare namespace API')).toThrow(
+    'guards can’t be used with a "declare namespace API" wrapper. Use a wrapper such as "export namespace API", or none.'
+  );
+});
+
+it('formatComment', () => {
+  expect(formatComment('One\ntwo\n')).toBe('/**\n* One\n* two\n*/');
+  expect(formatComment('Matches a/*/b')).toBe('/**\n* Matches a/*\\/b\n*/');
+});
+
+it('prefixName', () => {
+  expect(prefixName('is', 'User')).toBe('isUser');
+  expect(prefixName('is', 'user')).toBe('is_user');
+  expect(prefixName('is', '_default')).toBe('is__default');
+});
+
 it('spacesToUnderscores', () => {
   expect(snakeCase('one space  two  space')).toBe('one_space__two__space');
   expect(snakeCase('terminal.register')).toBe('terminal_register');
 });
+
+it('pascalCase', () => {
+  expect(pascalCase('get /regions/{id}')).toBe('GetRegionsId');
+});
+
+describe('parsePointer', () => {
+  it('splits pointers and fragments', () => {
+    expect(parsePointer('/definitions/User')).toEqual(['definitions', 'User']);
+    expect(parsePointer('#/definitions/User')).toEqual(['definitions', 'User']);
+    expect(parsePointer('#')).toEqual([]);
+    expect(parsePointer('')).toEqual([]);
+  });
+  it('unescapes tokens', () => {
+    expect(parsePointer('/paths/~1users~1{id}/a~0b/~01')).toEqual([
+      'paths',
+      '/users/{id}',
+      'a~b',
+      '~1',
+    ]);
+    expect(parsePointer('#/definitions/User%20Name')).toEqual(['definitions', 'User Name']);
+  });
+  it('rejects invalid pointers', () => {
+    expect(() => parsePointer('definitions/User')).toThrow('Invalid JSON Pointer');
+  });
+});
+
+describe('resolvePointer', () => {
+  const doc = { a: { 'b/c': [{ d: 1 }] }, '': 'empty' };
+  it('walks objects and arrays', () => {
+    expect(resolvePointer(doc, '#/a/b~1c/0/d')).toBe(1);
+    expect(resolvePointer(doc, '#/')).toBe('empty');
+    expect(resolvePointer(doc, '#')).toBe(doc);
+  });
+  it('throws when nothing’s there', () => {
+    expect(() => resolvePointer(doc, '#/a/b~1c/1')).toThrow('Could not resolve #/a/b~1c/1');
+    expect(() => resolvePointer(doc, '#/a/b~1c/-')).toThrow();
+    expect(() => resolvePointer(doc, '#/a/toString')).toThrow();
+  });
+});
+
+describe('resolveRef', () => {
+  const spec = {
+    parameters: { Limit: { name: 'limit', in: 'query' }, Alias: { $ref: '#/parameters/Limit' } },
+  };
+  it('follows local refs', () => {
+    expect(resolveRef(spec, { $ref: '#/parameters/Alias' })).toEqual({
+      name: 'limit',
+      in: 'query',
+    });
+  });
+  it('returns other values as-is', () => {
+    const value = { name: 'limit' };
+    expect(resolveRef(spec, value)).toBe(value);
+  });
+  it('throws on missing targets', () => {
+    expect(() => resolveRef(spec, { $ref: '#/parameters/Missing' })).toThrow(
+      'Could not resolve #/parameters/Missing'
+    );
+  });
+});
@@ -2,8 +2,10 @@ import fs from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
 import prettier from 'prettier';
+import ts from 'typescript';
 import swaggerToTS, { Swagger2Definition, Property } from '../../src';
-import { Swagger2, warningMessage } from '../../src/swagger-2';
+import { Swagger2, Swagger2Options } from '../../src/swagger-2';
+import { warningMessage } from '../../src/utils';
 
 const EXAMPLE_DIR = path.resolve(__dirname, '..', '..', 'example');
 
@@ -25,6 +27,28 @@ function format(spec: string, wrapper = 'declare namespace OpenAPI2'): string {
   );
 }
 
+// Compiles generated output on its own, returning whatever TypeScript reports
+function getTypeErrors(source: string): string[] {
+  const fileName = 'schema.ts';
+  const options: ts.CompilerOptions = {
+    noEmit: true,
+    skipLibCheck: true,
+    strict: true,
+    target: ts.ScriptTarget.ES2017,
+    types: [],
+  };
+  const host = ts.createCompilerHost(options);
+  const { getSourceFile } = host;
+  host.getSourceFile = (name, languageVersion) =>
+    name === fileName
+      ? ts.createSourceFile(name, source, languageVersion)
+      : getSourceFile(name, languageVersion);
+  const program = ts.createProgram([fileName], options, host);
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
 describe('Swagger 2 spec', () => {
   describe('core Swagger types', () => {
     it('string -> string', () => {
@@ -84,6 +108,9 @@ describe('Swagger 2 spec', () => {
 
       const ts = format(`
       export interface User {
+        /**
+         * @format float
+         */
         lat?: number;
       }`);
 
@@ -133,6 +160,29 @@ describe('Swagger 2 spec', () => {
 
       expect(swaggerToTS(swagger)).toBe(ts);
     });
+
+    it('array without items -> unknown[]', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          List: { type: 'array' },
+          User: {
+            properties: {
+              teams: { type: 'array' },
+            },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface User {
+        teams?: unknown[];
+      }
+      export type List = unknown[];`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
   });
 
   describe('complex structures', () => {
@@ -329,6 +379,115 @@ describe('Swagger 2 spec', () => {
       expect(swaggerToTS(swagger)).toBe(ts);
     });
 
+    it('handles anyOf', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Record: {
+            properties: {
+              rand: {
+                anyOf: [{ type: 'string' }, { $ref: '#/definitions/Other' }],
+              },
+            },
+            type: 'object',
+          },
+          Other: {
+            properties: { id: { type: 'string' } },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Record {
+        rand?: string | Other;
+      }
+      export interface Other {
+        id?: string;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+
+    it('handles discriminator', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Pet: {
+            discriminator: 'petType',
+            properties: {
+              name: { type: 'string' },
+              petType: { type: 'string' },
+            },
+            required: ['name', 'petType'],
+            type: 'object',
+          },
+          Cat: {
+            allOf: [
+              { $ref: '#/definitions/Pet' },
+              { properties: { huntingSkill: { type: 'string' } }, type: 'object' },
+            ],
+          },
+          Dog: {
+            'x-discriminator-value': 'dog',
+            allOf: [
+              { $ref: '#/definitions/Pet' },
+              { properties: { packSize: { type: 'integer' } }, type: 'object' },
+            ],
+          },
+          Owner: {
+            properties: {
+              pets: { type: 'array', items: { $ref: '#/definitions/Pet' } },
+            },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Pet {
+        name: string;
+        petType: string;
+      }
+      export interface Owner {
+        pets?: ((Cat & { petType: 'Cat' }) | (Dog & { petType: 'dog' }))[];
+      }
+      export interface Dog extends Pet {
+        packSize?: number;
+      }
+      export interface Cat extends Pet {
+        huntingSkill?: string;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+
+    it('documents not', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Record: {
+            properties: {
+              anything: { description: 'Anything else', not: { type: 'string' } },
+            },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Record {
+        /**
+         * Anything else
+         *
+         * Must not match \`{"type":"string"}\`
+         */
+        anything?: unknown;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+
     it('handles enum', () => {
       const swagger: Swagger2 = {
         swagger: '2.0',
@@ -351,6 +510,137 @@ describe('Swagger 2 spec', () => {
     });
   });
 
+  describe('documentation', () => {
+    it('writes schema metadata as JSDoc', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          User: {
+            description: 'A person with an account',
+            externalDocs: { description: 'User guide', url: 'https://example.com/users' },
+            properties: {
+              age: { type: 'integer', minimum: 13, maximum: 130, default: 18 },
+              handle: {
+                type: 'string',
+                title: 'Handle',
+                description: 'Shown on posts',
+                pattern: '^[a-z]*/$',
+                minLength: 2,
+                maxLength: 20,
+                example: 'drew',
+              },
+              nickname: { type: 'string', deprecated: true },
+            },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      /**
+       * A person with an account
+       *
+       * @see https://example.com/users User guide
+       */
+      export interface User {
+        /**
+         * @default 18
+         * @minimum 13
+         * @maximum 130
+         */
+        age?: number;
+        /**
+         * Handle
+         *
+         * Shown on posts
+         *
+         * @example "drew"
+         * @pattern ^[a-z]*\\/$
+         * @minLength 2
+         * @maxLength 20
+         */
+        handle?: string;
+        /**
+         * @deprecated
+         */
+        nickname?: string;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+  });
+
+  describe('allOf', () => {
+    it('merges required from inline members', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Admin: {
+            allOf: [
+              { properties: { email: { type: 'string' } }, required: ['email'] },
+              {
+                allOf: [{ $ref: '#/definitions/Person' }],
+                properties: { level: { type: 'integer' } },
+                required: ['level'],
+              },
+            ],
+            type: 'object',
+          },
+          Person: {
+            properties: { name: { type: 'string' } },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Person {
+        name?: string;
+      }
+      export interface Admin extends Person {
+        email: string;
+        level: number;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+
+    it('intersects properties whose types conflict', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Admin: {
+            allOf: [
+              { properties: { level: { type: 'integer', description: 'Rank' } } },
+              { properties: { level: { type: 'string' }, name: { type: 'string' } } },
+              { properties: { name: { type: 'string', description: 'Full name' } } },
+            ],
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Admin {
+        /**
+         * Rank
+         */
+        level?: number & string;
+        /**
+         * Full name
+         */
+        name?: string;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+      expect(warn).toHaveBeenCalledWith(
+        'allOf members of Admin disagree on the type of "level"; it will need to match both.'
+      );
+      warn.mockRestore();
+    });
+  });
+
   describe('property names', () => {
     it('preserves snake_case keys by default', () => {
       const swagger: Swagger2 = {
@@ -475,15 +765,24 @@ describe('Swagger 2 spec', () => {
       };
 
       const ts = format(`
+      /**
+       * @original User 1 Being Used
+       */
       export interface User_1_Being_Used {
         user?: User_1;
         user_array?: User_1[];
-        all_of_user?: object;
+        all_of_user?: User1BeingUsedAllOfUser;
         wrapper?: User1BeingUsedWrapper;
       }
       export interface User1BeingUsedWrapper {
          user?: User_1;
       }
+      export interface User1BeingUsedAllOfUser extends User_1 {
+        other_field?: string;
+      }
+      /**
+       * @original User 1
+       */
       export interface User_1 {
         'profile_image'?: string;
         'address_line_1'?: string;
@@ -493,6 +792,249 @@ describe('Swagger 2 spec', () => {
     });
   });
 
+  describe('invalid names', () => {
+    it('makes type names valid identifiers and notes the original', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          '1stParty': { type: 'string' },
+          'a+b:c': {
+            properties: {
+              class: { type: 'string' },
+              'user:id': { type: 'string' },
+            },
+            type: 'object',
+          },
+          default: { description: 'The default', type: 'string' },
+        },
+      };
+
+      const ts = format(`
+      /**
+       * The default
+       *
+       * @original default
+       */
+      export type _default = string;
+      /**
+       * @original a+b:c
+       */
+      export interface a_b_c {
+        class?: string;
+        'user:id'?: string;
+      }
+      /**
+       * @original 1stParty
+       */
+      export type _1stParty = string;`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+  });
+
+  describe('name collisions', () => {
+    it('numbers types that would otherwise share a name', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          'foo-bar': {
+            properties: { a: { type: 'string' } },
+            type: 'object',
+          },
+          foo_bar: {
+            properties: { b: { type: 'string' } },
+            type: 'object',
+          },
+          User: {
+            properties: {
+              address: { properties: { line1: { type: 'string' } }, type: 'object' },
+            },
+            type: 'object',
+          },
+          UserAddress: {
+            properties: { id: { type: 'string' } },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface UserAddress {
+        id?: string;
+      }
+      export interface User {
+        address?: UserAddress2;
+      }
+      export interface UserAddress2 {
+        line1?: string;
+      }
+      /**
+       * @original foo-bar
+       */
+      export interface foo_bar2 {
+        a?: string;
+      }
+      export interface foo_bar {
+        b?: string;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+      expect(warn.mock.calls).toEqual([
+        ['foo-bar would be named foo_bar, which is already taken; using foo_bar2 instead.'],
+        [
+          'UserAddress would be named UserAddress, which is already taken; using UserAddress2 instead.',
+        ],
+      ]);
+      warn.mockRestore();
+    });
+
+    it('numbers operation namespaces like types', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const response = { description: 'OK', schema: { $ref: '#/definitions/GetUser' } };
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          GetUser: { properties: { id: { type: 'string' } }, type: 'object' },
+        },
+        paths: {
+          '/users/{id}': { get: { operationId: 'get-user', responses: { 200: response } } },
+          '/v2/users/{id}': { get: { operationId: 'getUser', responses: { 200: response } } },
+        },
+      };
+
+      const ts = format(`
+      export interface GetUser {
+        id?: string;
+      }
+      export interface paths {
+        '/users/{id}': {
+          get: {
+            parameters: GetUser2.Params;
+            responses: {
+              200: GetUser2.Response200;
+            };
+          };
+        };
+        '/v2/users/{id}': {
+          get: {
+            parameters: GetUser3.Params;
+            responses: {
+              200: GetUser3.Response200;
+            };
+          };
+        };
+      }
+      export namespace GetUser2 {
+        export interface Params {}
+        /**
+         * OK
+         */
+        export type Response200 = GetUser;
+      }
+      export namespace GetUser3 {
+        export interface Params {}
+        /**
+         * OK
+         */
+        export type Response200 = GetUser;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+      expect(warn.mock.calls).toEqual([
+        ['get-user would be named GetUser, which is already taken; using GetUser2 instead.'],
+        ['getUser would be named GetUser, which is already taken; using GetUser3 instead.'],
+      ]);
+      // The client’s functions point to their own namespace
+      const client = swaggerToTS(swagger, { client: true, wrapper: false });
+      expect(client).toContain(
+        'getUser2: (params?: GetUser2.Params): Promise<GetUser2.Response200>'
+      );
+      expect(client).toContain(
+        'getUser3: (params?: GetUser3.Params): Promise<GetUser3.Response200>'
+      );
+      warn.mockRestore();
+    });
+
+    it('keeps types from taking the names of operation namespace members', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Body: { properties: { name: { type: 'string' } }, type: 'object' },
+          QueryParams: { type: 'string' },
+          Response200: { properties: { id: { type: 'string' } }, type: 'object' },
+        },
+        paths: {
+          '/users': {
+            post: {
+              operationId: 'createUser',
+              parameters: [
+                { in: 'body', name: 'body', schema: { $ref: '#/definitions/Body' } },
+                {
+                  in: 'query',
+                  items: { $ref: '#/definitions/QueryParams' },
+                  name: 'q',
+                  type: 'array',
+                },
+              ],
+              responses: {
+                200: { description: 'OK', schema: { $ref: '#/definitions/Response200' } },
+              },
+            },
+          },
+        },
+      };
+
+      const output = swaggerToTS(swagger, { wrapper: 'export namespace API' });
+      expect(output).toContain('export type Body = Body2;');
+      expect(output).toContain('q?: QueryParams2[];');
+      expect(output).toContain('export type Response200 = Response2002;');
+      expect(getTypeErrors(output)).toEqual([]);
+      expect(warn).toHaveBeenCalledWith(
+        'Body would be named Body, which is already taken; using Body2 instead.'
+      );
+      warn.mockRestore();
+    });
+
+    it('gives types that differ only in case their own guards and mocks', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          User: { properties: { id: { type: 'string' } }, type: 'object' },
+          user: {
+            properties: { owner: { $ref: '#/definitions/User' } },
+            required: ['owner'],
+            type: 'object',
+          },
+        },
+      };
+
+      const cases: ['guards' | 'mocks', string[]][] = [
+        [
+          'guards',
+          [
+            'export function isUser(value: unknown): value is User {',
+            'export function is_user(value: unknown): value is user {',
+            'isUser(object.owner)',
+          ],
+        ],
+        [
+          'mocks',
+          [
+            'export function mockUser(overrides: Partial<User> = {}): User {',
+            'export function mock_user(overrides: Partial<user> = {}): user {',
+            'owner: mockUser(),',
+          ],
+        ],
+      ];
+      cases.forEach(([option, lines]) => {
+        const output = swaggerToTS(swagger, { [option]: true, wrapper: 'export namespace API' });
+        lines.forEach((line) => expect(output).toContain(line));
+      });
+    });
+  });
+
   describe('TS features', () => {
     it('specifies required types', () => {
       const swagger: Swagger2 = {
@@ -516,7 +1058,7 @@ describe('Swagger 2 spec', () => {
       expect(swaggerToTS(swagger)).toBe(ts);
     });
 
-    it('flattens single-type $refs', () => {
+    it('names single-type $refs', () => {
       const swagger: Swagger2 = {
         swagger: '2.0',
         definitions: {
@@ -533,106 +1075,1700 @@ describe('Swagger 2 spec', () => {
       };
 
       const ts = format(`
+      export type UserPassword = string;
       export interface User {
-        password?: string;
+        password?: UserPassword;
       }`);
 
       expect(swaggerToTS(swagger)).toBe(ts);
     });
-  });
 
-  it('can deal with additionalProperties: true', () => {
-    const swagger: Swagger2 = {
-      swagger: '2.0',
-      definitions: {
-        FeatureMap: {
-          type: 'object',
-          additionalProperties: true,
-        },
-      },
+    it('appends null to x-nullable types', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Address: {
+            properties: {
+              line1: { type: 'string' },
+            },
+            type: 'object',
+          },
+          User: {
+            properties: {
+              address: { $ref: '#/definitions/Address', 'x-nullable': true },
+              nickname: { type: 'string', 'x-nullable': true },
+              role: { type: 'string', enum: ['user', 'admin'], 'x-nullable': true },
+              scores: { type: 'array', items: { type: 'number', 'x-nullable': true } },
+              tags: { type: 'array', items: { type: 'string' }, 'x-nullable': true },
+              username: { type: 'string', 'x-nullable': false },
+            },
+            required: ['nickname'],
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface User {
+        address?: Address | null;
+        nickname: string | null;
+        role?: 'user' | 'admin' | null;
+        scores?: (number | null)[];
+        tags?: string[] | null;
+        username?: string;
+      }
+      export interface Address {
+        line1?: string;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+  });
+
+  it('can deal with additionalProperties: true', () => {
+    const swagger: Swagger2 = {
+      swagger: '2.0',
+      definitions: {
+        FeatureMap: {
+          type: 'object',
+          additionalProperties: true,
+        },
+      },
+    };
+
+    const ts = format(`
+    export interface FeatureMap {
+      [key: string]: any;
+    }`);
+
+    expect(swaggerToTS(swagger)).toBe(ts);
+  });
+
+  it('can deal with additionalProperties of type', () => {
+    const swagger: Swagger2 = {
+      swagger: '2.0',
+      definitions: {
+        CamundaFormField: {
+          type: 'object',
+          required: ['displayType', 'id', 'label', 'options', 'responseType'],
+          properties: {
+            displayType: {
+              type: 'string',
+              enum: ['radio', 'date', 'select', 'textfield', 'unknown'],
+            },
+            id: { type: 'string' },
+            label: { type: 'string' },
+            options: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+            },
+            responseType: {
+              type: 'string',
+              enum: [
+                'booleanField',
+                'stringField',
+                'longField',
+                'enumField',
+                'dateField',
+                'customTypeField',
+                'unknownFieldType',
+              ],
+            },
+            value: { type: 'string' },
+          },
+          title: 'CamundaFormField',
+        },
+      },
+    };
+
+    const ts = format(`
+    /**
+     * CamundaFormField
+     */
+    export interface CamundaFormField {
+      displayType: 'radio' | 'date' | 'select' | 'textfield' | 'unknown';
+      id: string;
+      label: string;
+      options: { [key: string]: string }
+      responseType:
+        | 'booleanField'
+        | 'stringField'
+        | 'longField'
+        | 'enumField'
+        | 'dateField'
+        | 'customTypeField'
+        | 'unknownFieldType';
+      value?: string;
+    }`);
+
+    expect(swaggerToTS(swagger)).toBe(ts);
+  });
+
+  describe('other output', () => {
+    it('aliases top-level primitive and array definitions', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Colors: {
+            type: 'array',
+            items: { $ref: '#/definitions/Color' },
+          },
+          Color: { type: 'string' },
+          Currency: { type: 'string', enum: ['usd', 'eur'] },
+        },
+      };
+
+      const ts = format(`
+      export type Currency = 'usd' | 'eur';
+      export type Colors = Color[];
+      export type Color = string;`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+  });
+
+  describe('recursive definitions', () => {
+    it('references objects that contain themselves', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Node: {
+            properties: {
+              children: { $ref: '#/definitions/NodeList' },
+              parent: { $ref: '#/definitions/Node' },
+            },
+            type: 'object',
+          },
+          NodeList: {
+            type: 'array',
+            items: { $ref: '#/definitions/Node' },
+          },
+        },
+      };
+
+      const ts = format(`
+      export type NodeList = Node[];
+      export interface Node {
+        children?: NodeList;
+        parent?: Node;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+
+    it('aliases arrays that contain themselves', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Tree: {
+            type: 'array',
+            items: { $ref: '#/definitions/Tree' },
+          },
+          Forest: {
+            properties: {
+              trees: { $ref: '#/definitions/Tree' },
+            },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export type Tree = Tree[];
+      export interface Forest {
+        trees?: Tree;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+
+    it('aliases arrays that contain each other', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Thread: {
+            properties: {
+              replies: { $ref: '#/definitions/Replies' },
+            },
+            type: 'object',
+          },
+          Replies: {
+            type: 'array',
+            items: { $ref: '#/definitions/Reply' },
+          },
+          Reply: {
+            type: 'array',
+            items: { $ref: '#/definitions/Replies' },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Thread {
+        replies?: Replies;
+      }
+      export type Reply = Replies[];
+      export type Replies = Reply[];`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+
+    it('handles recursive $refs into nested properties', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Comment: {
+            properties: {
+              thread: {
+                type: 'array',
+                items: { $ref: '#/definitions/Comment/properties/thread' },
+              },
+            },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Comment {
+        thread?: CommentThread[][];
+      }
+      export type CommentThread = CommentThread[];`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+  });
+
+  describe('JSON Pointers', () => {
+    it('resolves $refs into nested properties and items', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          User: {
+            properties: {
+              remote_id: {
+                type: 'object',
+                properties: { id: { type: 'string' } },
+              },
+              roles: {
+                type: 'array',
+                items: { type: 'object', properties: { name: { type: 'string' } } },
+              },
+              status: { type: 'string', enum: ['active', 'inactive'] },
+            },
+            type: 'object',
+          },
+          Session: {
+            properties: {
+              remote_id: { $ref: '#/definitions/User/properties/remote_id' },
+              role: { $ref: '#/definitions/User/properties/roles/items' },
+              status: { $ref: '#/definitions/User/properties/status' },
+            },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface User {
+        remote_id?: UserRemoteId;
+        roles?: UserRoles[];
+        status?: 'active' | 'inactive';
+      }
+      export interface UserRoles {
+        name?: string;
+      }
+      export interface UserRemoteId {
+        id?: string;
+      }
+      export interface Session {
+        remote_id?: UserRemoteId;
+        role?: UserRoles;
+        status?: 'active' | 'inactive';
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+
+    it('unescapes ~0 and ~1', () => {
+      const swagger = {
+        swagger: '2.0',
+        definitions: {
+          User: {
+            properties: {
+              'a/b': { type: 'string' },
+            },
+            type: 'object',
+          },
+          Session: {
+            properties: {
+              ab: { $ref: '#/definitions/User/properties/a~1b' },
+              cd: { $ref: '#/x-shared/c~0d' },
+            },
+            type: 'object',
+          },
+        },
+        'x-shared': {
+          'c~d': { type: 'string', enum: ['p', 'q'] },
+        },
+      } as Swagger2;
+
+      const ts = format(`
+      export interface User {
+        'a/b'?: string;
+      }
+      export interface Session {
+        ab?: string;
+        cd?: 'p' | 'q';
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+
+    it('resolves $refs outside of definitions', () => {
+      const swagger = {
+        swagger: '2.0',
+        definitions: {
+          User: {
+            properties: {
+              address: { $ref: '#/x-shared/address' },
+            },
+            type: 'object',
+          },
+        },
+        'x-shared': {
+          address: { type: 'object', properties: { city: { type: 'string' } } },
+        },
+      } as Swagger2;
+
+      const ts = format(`
+      export interface User {
+        address?: XSharedAddress;
+      }
+      export interface XSharedAddress {
+        city?: string;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+  });
+
+  describe('paths', () => {
+    it('types arrays without items and file parameters as unknown', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {},
+        paths: {
+          '/files': {
+            post: {
+              parameters: [
+                { name: 'expand', in: 'query', type: 'array' },
+                { name: 'file', in: 'formData', type: 'file', required: true },
+              ],
+              responses: { 204: { description: 'Uploaded' } },
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface paths {
+        '/files': {
+          post: {
+            parameters: {
+              query?: {
+                expand?: unknown[];
+              };
+              formData: {
+                file: unknown;
+              };
+            };
+            responses: {
+              /**
+               * Uploaded
+               */
+              204: unknown;
+            };
+          };
+        };
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+
+    it('types parameters and responses by URL and method', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Customer: {
+            properties: { id: { type: 'string' } },
+            type: 'object',
+          },
+          Error: {
+            properties: { message: { type: 'string' } },
+            type: 'object',
+          },
+        },
+        parameters: {
+          Expand: { name: 'expand', in: 'query', type: 'array', items: { type: 'string' } },
+        },
+        paths: {
+          '/customers/{id}': {
+            parameters: [{ name: 'id', in: 'path', type: 'string', required: true }],
+            get: {
+              parameters: [
+                { $ref: '#/parameters/Expand' },
+                { name: 'Stripe-Account', in: 'header', type: 'string' },
+              ],
+              responses: {
+                200: { description: 'OK', schema: { $ref: '#/definitions/Customer' } },
+                default: { description: 'Error', schema: { $ref: '#/definitions/Error' } },
+              },
+            },
+            post: {
+              parameters: [
+                {
+                  name: 'body',
+                  in: 'body',
+                  required: true,
+                  schema: { $ref: '#/definitions/Customer' },
+                },
+              ],
+              responses: {
+                204: { description: 'Updated' },
+              },
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Error {
+        message?: string;
+      }
+      export interface Customer {
+        id?: string;
+      }
+      export interface paths {
+        '/customers/{id}': {
+          get: {
+            parameters: {
+              path: {
+                id: string;
+              };
+              query?: {
+                expand?: string[];
+              };
+              header?: {
+                'Stripe-Account'?: string;
+              };
+            };
+            responses: {
+              /**
+               * OK
+               */
+              200: Customer;
+              /**
+               * Error
+               */
+              default: Error;
+            };
+          };
+          post: {
+            parameters: {
+              path: {
+                id: string;
+              };
+              body: Customer;
+            };
+            responses: {
+              /**
+               * Updated
+               */
+              204: unknown;
+            };
+          };
+        };
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+
+    it('generates inline schemas found in operations', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {},
+        paths: {
+          '/charges': {
+            get: {
+              parameters: [
+                { name: 'status', in: 'query', type: 'string', enum: ['paid', 'failed'] },
+              ],
+              responses: {
+                200: {
+                  description: 'OK',
+                  schema: {
+                    type: 'object',
+                    properties: { has_more: { type: 'boolean' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface paths {
+        '/charges': {
+          get: {
+            parameters: {
+              query?: {
+                status?: 'paid' | 'failed';
+              };
+            };
+            responses: {
+              /**
+               * OK
+               */
+              200: GetCharges200;
+            };
+          };
+        };
+      }
+      export interface GetCharges200 {
+        has_more?: boolean;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+
+    it('groups operations with an operationId into their own namespace', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Charge: {
+            properties: { id: { type: 'string' } },
+            type: 'object',
+          },
+        },
+        paths: {
+          '/charges': {
+            get: {
+              operationId: 'list_charges',
+              summary: 'List charges',
+              parameters: [
+                { name: 'limit', in: 'query', type: 'integer' },
+                { name: 'status', in: 'query', type: 'string', enum: ['paid', 'failed'] },
+              ],
+              responses: {
+                200: {
+                  description: 'OK',
+                  schema: { type: 'array', items: { $ref: '#/definitions/Charge' } },
+                },
+              },
+            },
+            post: {
+              operationId: 'createCharge',
+              parameters: [
+                {
+                  name: 'body',
+                  in: 'body',
+                  required: true,
+                  schema: { type: 'object', properties: { amount: { type: 'integer' } } },
+                },
+              ],
+              responses: {
+                201: { description: 'Created', schema: { $ref: '#/definitions/Charge' } },
+              },
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Charge {
+        id?: string;
+      }
+      export interface paths {
+        '/charges': {
+          /**
+           * List charges
+           */
+          get: {
+            parameters: ListCharges.Params;
+            responses: {
+              200: ListCharges.Response200;
+            };
+          };
+          post: {
+            parameters: CreateCharge.Params;
+            responses: {
+              201: CreateCharge.Response201;
+            };
+          };
+        };
+      }
+      /**
+       * List charges
+       */
+      export namespace ListCharges {
+        export interface QueryParams {
+          limit?: number;
+          status?: 'paid' | 'failed';
+        }
+        export interface Params {
+          query?: QueryParams;
+        }
+        /**
+         * OK
+         */
+        export type Response200 = Charge[];
+      }
+      export namespace CreateCharge {
+        export type Body = CreateChargeBody;
+        export interface Params {
+          body: Body;
+        }
+        /**
+         * Created
+         */
+        export type Response201 = Charge;
+      }
+      export interface CreateChargeBody {
+        amount?: number;
+      }`);
+
+      expect(swaggerToTS(swagger)).toBe(ts);
+    });
+  });
+
+  describe('enums option', () => {
+    const swagger: Swagger2 = {
+      swagger: '2.0',
+      definitions: {
+        Status: {
+          type: 'string',
+          enum: ['in_progress', 'done'],
+          'x-enum-varnames': ['Started', 'Finished'],
+        },
+        Task: {
+          properties: {
+            kind: { type: 'string', enum: ['bug', 'feature-request'], 'x-nullable': true },
+            status: { $ref: '#/definitions/Status' },
+          },
+          type: 'object',
+        },
+      },
+    };
+    const wrapper = 'export namespace API';
+
+    it('writes named unions', () => {
+      const ts = format(`
+      export interface Task {
+        kind?: TaskKind | null;
+        status?: Status;
+      }
+      export type TaskKind = 'bug' | 'feature-request';
+      export type Status = 'in_progress' | 'done';`);
+
+      expect(swaggerToTS(swagger, { enums: 'union' })).toBe(ts);
+    });
+
+    it('writes enums', () => {
+      const ts = format(
+        `
+      export interface Task {
+        kind?: TaskKind | null;
+        status?: Status;
+      }
+      export enum TaskKind {
+        Bug = 'bug',
+        FeatureRequest = 'feature-request',
+      }
+      export enum Status {
+        Started = 'in_progress',
+        Finished = 'done',
+      }`,
+        wrapper
+      );
+
+      expect(swaggerToTS(swagger, { enums: 'enum', wrapper })).toBe(ts);
+    });
+
+    it('writes const objects', () => {
+      const ts = format(
+        `
+      export interface Task {
+        kind?: TaskKind | null;
+        status?: Status;
+      }
+      export const TaskKind = {
+        Bug: 'bug',
+        FeatureRequest: 'feature-request',
+      } as const;
+      export type TaskKind = typeof TaskKind[keyof typeof TaskKind];
+      export const Status = {
+        Started: 'in_progress',
+        Finished: 'done',
+      } as const;
+      export type Status = typeof Status[keyof typeof Status];`,
+        wrapper
+      );
+
+      expect(swaggerToTS(swagger, { enums: 'const', wrapper })).toBe(ts);
+    });
+
+    it('numbers members that would share a name', () => {
+      const timezones: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Timezone: { type: 'string', enum: ['Etc/GMT+0', 'Etc/GMT-0', 'Etc/GMT0', 'in-progress'] },
+          Progress: {
+            type: 'string',
+            enum: ['in-progress', 'in_progress', 'done'],
+            'x-enum-varnames': ['Started', 'Started'],
+          },
+        },
+      };
+
+      const ts = format(
+        `
+      export enum Timezone {
+        EtcGMT0 = 'Etc/GMT+0',
+        EtcGMT02 = 'Etc/GMT-0',
+        EtcGMT03 = 'Etc/GMT0',
+        InProgress = 'in-progress',
+      }
+      export enum Progress {
+        Started = 'in-progress',
+        Started2 = 'in_progress',
+        Done = 'done',
+      }`,
+        wrapper
+      );
+
+      expect(swaggerToTS(timezones, { enums: 'enum', wrapper })).toBe(ts);
+    });
+  });
+
+  describe('formats option', () => {
+    it('maps formats to types', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Upload: {
+            properties: {
+              created_at: { type: 'string', format: 'date-time' },
+              file: { type: 'string', format: 'binary' },
+              id: { type: 'string', format: 'uuid' },
+              size: { type: 'integer', format: 'int64' },
+              versions: { type: 'array', items: { type: 'integer', format: 'int64' } },
+            },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Upload {
+        /**
+         * @format date-time
+         */
+        created_at?: Date | string;
+        /**
+         * @format binary
+         */
+        file?: Blob;
+        /**
+         * @format uuid
+         */
+        id?: string;
+        /**
+         * @format int64
+         */
+        size?: bigint | string;
+        versions?: (bigint | string)[];
+      }`);
+
+      const formats = { binary: 'Blob', 'date-time': 'Date | string', int64: 'bigint | string' };
+      expect(swaggerToTS(swagger, { formats })).toBe(ts);
+    });
+  });
+
+  describe('brands option', () => {
+    it('brands formats and x-brand once', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Charge: {
+            properties: {
+              customer: { type: 'string', 'x-brand': 'CustomerID' },
+              id: { type: 'string', format: 'uuid' },
+              refunds: { type: 'array', items: { type: 'string', format: 'uuid' } },
+            },
+            type: 'object',
+          },
+          Customer: {
+            properties: {
+              id: { type: 'string', 'x-brand': 'CustomerID', 'x-nullable': true },
+            },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Customer {
+        id?: CustomerID | null;
+      }
+      export interface Charge {
+        customer?: CustomerID;
+        /**
+         * @format uuid
+         */
+        id?: UUID;
+        refunds?: UUID[];
+      }
+      export type CustomerID = string & { __brand: 'CustomerID' };
+      export type UUID = string & { __brand: 'uuid' };`);
+
+      expect(swaggerToTS(swagger, { brands: { uuid: 'UUID' } })).toBe(ts);
+    });
+
+    it('writes a definition named after its brand as the brand', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          UUID: { type: 'string', format: 'uuid' },
+          User: {
+            properties: {
+              id: { $ref: '#/definitions/UUID' },
+            },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      /**
+       * @format uuid
+       */
+      export type UUID = string & { __brand: 'uuid' };
+      export interface User {
+        id?: UUID;
+      }`);
+
+      expect(swaggerToTS(swagger, { brands: { uuid: 'UUID' } })).toBe(ts);
+    });
+  });
+
+  describe('immutable option', () => {
+    it('marks properties and arrays readonly', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Grid: {
+            properties: {
+              cells: { type: 'array', items: { type: 'array', items: { type: 'number' } } },
+              labels: { type: 'object', additionalProperties: { type: 'string' } },
+              rows: { type: 'array', items: { properties: { id: { type: 'string' } } } },
+              tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] } },
+            },
+            required: ['cells'],
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Grid {
+        readonly cells: readonly (readonly number[])[];
+        readonly labels?: { readonly [key: string]: string };
+        readonly rows?: readonly GridRows[];
+        readonly tags?: readonly string[];
+      }
+      export interface GridRows {
+        readonly id?: string;
+      }`);
+
+      expect(swaggerToTS(swagger, { immutable: true })).toBe(ts);
+    });
+  });
+
+  describe('objects option', () => {
+    it('writes objects as type aliases', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Admin: {
+            allOf: [
+              { $ref: '#/definitions/User' },
+              { properties: { level: { type: 'integer' } }, required: ['level'] },
+              { properties: { level: { type: 'string' } } },
+            ],
+            type: 'object',
+          },
+          Moderator: {
+            allOf: [{ $ref: '#/definitions/User' }],
+          },
+          User: {
+            properties: {
+              email: { type: 'string' },
+            },
+            type: 'object',
+          },
+        },
+      };
+
+      const ts = format(`
+      export type User = {
+        email?: string;
+      };
+      export type Moderator = User;
+      export type Admin = User & {
+        level: number;
+      } & {
+        level: string;
+      };`);
+
+      expect(swaggerToTS(swagger, { objects: 'type' })).toBe(ts);
+    });
+
+    it('applies required to every allOf member', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Pair: {
+            allOf: [
+              { properties: { a: { type: 'string' } } },
+              { properties: { b: { type: 'number' } } },
+            ],
+            required: ['a', 'b'],
+          },
+        },
+      };
+
+      const ts = format(`
+      export type Pair = {
+        a: string;
+      } & {
+        b: number;
+      };`);
+
+      expect(swaggerToTS(swagger, { objects: 'type' })).toBe(ts);
+    });
+  });
+
+  describe('converters option', () => {
+    const swagger: Swagger2 = {
+      swagger: '2.0',
+      definitions: {
+        Person: {
+          properties: { full_name: { type: 'string' } },
+          type: 'object',
+        },
+        User: {
+          allOf: [{ $ref: '#/definitions/Person' }],
+          properties: {
+            best_friends: { items: { $ref: '#/definitions/Person' }, type: 'array' },
+            home_address: {
+              properties: { street_name: { type: 'string' } },
+              type: 'object',
+            },
+          },
+          type: 'object',
+        },
+      },
     };
 
-    const ts = format(`
-    export interface FeatureMap {
-      [key: string]: any;
-    }`);
+    it('writes functions converting to and from the wire format', () => {
+      const ts = format(
+        `
+      export interface User extends Person {
+        bestFriends?: Person[];
+        homeAddress?: UserHomeAddress;
+      }
+      export function UserFromWire(wire: unknown): User {
+        return convertObject(wire, {
+          full_name: ['fullName'],
+          best_friends: ['bestFriends', convertArray(PersonFromWire)],
+          home_address: ['homeAddress', UserHomeAddressFromWire],
+        }) as User;
+      }
+      export function UserToWire(value: User): unknown {
+        return convertObject(value, {
+          fullName: ['full_name'],
+          bestFriends: ['best_friends', convertArray(PersonToWire)],
+          homeAddress: ['home_address', UserHomeAddressToWire],
+        });
+      }
+      export interface UserHomeAddress {
+        streetName?: string;
+      }
+      export function UserHomeAddressFromWire(wire: unknown): UserHomeAddress {
+        return convertObject(wire, { street_name: ['streetName'] }) as UserHomeAddress;
+      }
+      export function UserHomeAddressToWire(value: UserHomeAddress): unknown {
+        return convertObject(value, { streetName: ['street_name'] });
+      }
+      export interface Person {
+        fullName?: string;
+      }
+      export function PersonFromWire(wire: unknown): Person {
+        return convertObject(wire, { full_name: ['fullName'] }) as Person;
+      }
+      export function PersonToWire(value: Person): unknown {
+        return convertObject(value, { fullName: ['full_name'] });
+      }
+      function convertObject(
+        value: unknown,
+        keys: { [key: string]: [string, ((value: never) => unknown)?] },
+        convertRest?: (value: never) => unknown
+      ): unknown {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+          return value;
+        }
+        const object = value as { [key: string]: unknown };
+        const result: { [key: string]: unknown } = {};
+        Object.keys(object).forEach((key) => {
+          const isListed = Object.prototype.hasOwnProperty.call(keys, key);
+          const name = isListed ? keys[key][0] : key;
+          const convert = isListed ? keys[key][1] : convertRest;
+          const isEmpty = object[key] === null || object[key] === undefined;
+          result[name] = convert && !isEmpty ? convert(object[key] as never) : object[key];
+        });
+        return result;
+      }
+      function convertArray(convert: (value: never) => unknown): (value: unknown) => unknown {
+        return (value) => (Array.isArray(value) ? value.map((item) => convert(item as never)) : value);
 
-    expect(swaggerToTS(swagger)).toBe(ts);
+      }`,
+        'export namespace API'
+      );
+
+      const options = { camelcase: true, converters: true, wrapper: 'export namespace API' };
+      expect(swaggerToTS(swagger, options)).toBe(ts);
+    });
+
+    it('lists only the keys of each inputTypes variant', () => {
+      const account: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Account: {
+            properties: {
+              created_at: { readOnly: true, type: 'string' },
+              display_name: { type: 'string' },
+              pass_word: { type: 'string', writeOnly: true },
+            },
+            type: 'object',
+          },
+        },
+      };
+
+      const options = {
+        camelcase: true,
+        converters: true,
+        inputTypes: true,
+        wrapper: false as false,
+      };
+      const output = swaggerToTS(account, options);
+      // Each lists the keys of its own type; the others are passed through as they are
+      const keys = (type: string): string =>
+        output.split(`function ${type}FromWire`)[1].split('}) as')[0];
+      expect(keys('Account')).not.toContain('pass_word');
+      expect(keys('Account')).toContain("created_at: ['createdAt'],");
+      expect(keys('AccountInput')).not.toContain('created_at');
+      expect(keys('AccountInput')).toContain("pass_word: ['passWord'],");
+    });
   });
 
-  it('can deal with additionalProperties of type', () => {
+  describe('guards option', () => {
+    it('writes a type guard for every definition', () => {
+      const swagger: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Customer: {
+            properties: {
+              address: {
+                properties: { city: { type: 'string' } },
+                required: ['city'],
+                type: 'object',
+              },
+              email: { type: 'string', 'x-nullable': true },
+              id: { type: 'string' },
+              status: { enum: ['active', 'closed'], type: 'string' },
+              tags: { items: { type: 'string' }, type: 'array' },
+            },
+            required: ['id', 'status'],
+            type: 'object',
+          },
+          Customers: { items: { $ref: '#/definitions/Customer' }, type: 'array' },
+        },
+      };
+
+      const ts = format(
+        `
+      export type Customers = Customer[];
+      export function isCustomers(value: unknown): value is Customers {
+        return Array.isArray(value) && value.every((item) => isCustomer(item));
+      }
+      export interface Customer {
+        address?: CustomerAddress;
+        email?: string | null;
+        id: string;
+        status: 'active' | 'closed';
+        tags?: string[];
+      }
+      export function isCustomer(value: unknown): value is Customer {
+        const object = value as { [key: string]: unknown };
+        return (
+          typeof value === 'object' &&
+          value !== null &&
+          !Array.isArray(value) &&
+          (object.address === undefined || isCustomerAddress(object.address)) &&
+          (object.email === undefined || object.email === null || typeof object.email === 'string') &&
+          typeof object.id === 'string' &&
+          (['active', 'closed'] as unknown[]).indexOf(object.status) !== -1 &&
+          (object.tags === undefined ||
+            (Array.isArray(object.tags) && object.tags.every((item) => typeof item === 'string')))
+        );
+      }
+      export interface CustomerAddress {
+        city: string;
+      }
+      export function isCustomerAddress(value: unknown): value is CustomerAddress {
+        const object = value as { [key: string]: unknown };
+        return (
+          typeof value === 'object' &&
+          value !== null &&
+          !Array.isArray(value) &&
+          typeof object.city === 'string'
+        );
+      }`,
+        'export namespace API'
+      );
+
+      expect(swaggerToTS(swagger, { guards: true, wrapper: 'export namespace API' })).toBe(ts);
+    });
+  });
+
+  describe('mocks option', () => {
     const swagger: Swagger2 = {
       swagger: '2.0',
       definitions: {
-        CamundaFormField: {
-          type: 'object',
-          required: ['displayType', 'id', 'label', 'options', 'responseType'],
+        Customer: {
           properties: {
-            displayType: {
-              type: 'string',
-              enum: ['radio', 'date', 'select', 'textfield', 'unknown'],
-            },
-            id: { type: 'string' },
-            label: { type: 'string' },
-            options: {
+            address: {
+              properties: { city: { type: 'string' } },
+              required: ['city'],
               type: 'object',
-              additionalProperties: { type: 'string' },
             },
-            responseType: {
-              type: 'string',
-              enum: [
-                'booleanField',
-                'stringField',
-                'longField',
-                'enumField',
-                'dateField',
-                'customTypeField',
-                'unknownFieldType',
-              ],
+            balance: { minimum: 1, type: 'integer' },
+            email: { format: 'email', type: 'string' },
+            id: { example: 'cus_123', type: 'string' },
+            name: { type: 'string' },
+            nickname: { type: 'string', 'x-nullable': true },
+            plan: { $ref: '#/definitions/Plan' },
+            status: { enum: ['active', 'closed'], type: 'string' },
+            tags: { items: { type: 'string' }, type: 'array' },
+          },
+          required: ['address', 'balance', 'email', 'id', 'nickname', 'plan', 'status', 'tags'],
+          type: 'object',
+        },
+        Plan: { default: 'free', enum: ['free', 'pro'], type: 'string' },
+      },
+    };
+
+    it('writes a mock for every definition, filling in required properties', () => {
+      const ts = format(
+        `
+      /**
+       * @default "free"
+       */
+      export type Plan = 'free' | 'pro';
+      export function mockPlan(): Plan {
+        return 'free';
+      }
+      export interface Customer {
+        address: CustomerAddress;
+        /**
+         * @minimum 1
+         */
+        balance: number;
+        /**
+         * @format email
+         */
+        email: string;
+        /**
+         * @example "cus_123"
+         */
+        id: string;
+        name?: string;
+        nickname: string | null;
+        plan: Plan;
+        status: 'active' | 'closed';
+        tags: string[];
+      }
+      export function mockCustomer(overrides: Partial<Customer> = {}): Customer {
+        return {
+          address: mockCustomerAddress(),
+          balance: 1,
+          email: 'user@example.com',
+          id: 'cus_123',
+          nickname: null,
+          plan: mockPlan(),
+          status: 'active',
+          tags: [],
+          ...overrides,
+        };
+      }
+      export interface CustomerAddress {
+        city: string;
+      }
+      export function mockCustomerAddress(overrides: Partial<CustomerAddress> = {}): CustomerAddress {
+        return { city: 'string', ...overrides };
+      }`,
+        'export namespace API'
+      );
+
+      expect(swaggerToTS(swagger, { mocks: true, wrapper: 'export namespace API' })).toBe(ts);
+    });
+
+    it('casts mocks of objects with additionalProperties', () => {
+      const labeled: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Labels: { additionalProperties: { type: 'string' }, type: 'object' },
+          Tagged: {
+            allOf: [
+              { $ref: '#/definitions/Labels' },
+              { properties: { id: { type: 'string' } }, required: ['id'] },
+            ],
+          },
+        },
+      };
+
+      const output = swaggerToTS(labeled, { mocks: true, wrapper: 'export namespace API' });
+      expect(output).toContain('return { ...overrides } as Labels;');
+      expect(output).toContain("return { id: 'string', ...overrides } as Tagged;");
+      expect(getTypeErrors(output)).toEqual([]);
+    });
+
+    it('keeps mocks of recursive types from calling themselves', () => {
+      const recursive: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Category: {
+            properties: { name: { type: 'string' }, parent: { $ref: '#/definitions/Category' } },
+            required: ['name', 'parent'],
+            type: 'object',
+          },
+          Expression: { oneOf: [{ $ref: '#/definitions/Sum' }, { type: 'number' }] },
+          Sum: {
+            properties: { left: { $ref: '#/definitions/Expression' } },
+            required: ['left'],
+            type: 'object',
+          },
+        },
+      };
+
+      const output = swaggerToTS(recursive, { mocks: true, wrapper: 'export namespace API' });
+      expect(output).toContain("return { name: 'string', parent: {} as Category, ...overrides };");
+      expect(output).toContain('export function mockExpression(): Expression {\n    return 0;');
+      expect(output).toContain('return { left: {} as Expression, ...overrides };');
+      expect(getTypeErrors(output)).toEqual([]);
+    });
+
+    it('keeps types from taking the name of Partial', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const partial: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Partial: { properties: { id: { type: 'string' } }, required: ['id'], type: 'object' },
+        },
+      };
+
+      const output = swaggerToTS(partial, { mocks: true, wrapper: 'export namespace API' });
+      expect(output).toContain('export interface Partial2 {');
+      expect(output).toContain(
+        'export function mockPartial2(overrides: Partial<Partial2> = {}): Partial2 {'
+      );
+      expect(getTypeErrors(output)).toEqual([]);
+      expect(warn).toHaveBeenCalledWith(
+        'Partial would be named Partial, which is already taken; using Partial2 instead.'
+      );
+      warn.mockRestore();
+    });
+  });
+
+  describe('client option', () => {
+    const swagger: Swagger2 = {
+      swagger: '2.0',
+      definitions: {},
+      paths: {
+        '/customers': {
+          get: {
+            operationId: 'listCustomers',
+            parameters: [
+              {
+                collectionFormat: 'multi',
+                in: 'query',
+                items: { type: 'string' },
+                name: 'ids',
+                type: 'array',
+              },
+            ],
+            responses: {
+              200: { description: 'ok', schema: { items: { type: 'string' }, type: 'array' } },
             },
-            value: { type: 'string' },
           },
-          title: 'CamundaFormField',
+        },
+        '/customers/{id}': {
+          delete: {
+            parameters: [{ in: 'path', name: 'id', required: true, type: 'string' }],
+            responses: { 204: { description: 'Deleted' }, default: { description: 'x' } },
+          },
         },
       },
     };
 
-    const ts = format(`
-    export interface CamundaFormField {
-      displayType: 'radio' | 'date' | 'select' | 'textfield' | 'unknown';
-      id: string;
-      label: string;
-      options: { [key: string]: string }
-      responseType:
-        | 'booleanField'
-        | 'stringField'
-        | 'longField'
-        | 'enumField'
-        | 'dateField'
-        | 'customTypeField'
-        | 'unknownFieldType';
-      value?: string;
-    }`);
+    it('writes a typed client with a function per operation', () => {
+      const ts = format(
+        `
+  export interface paths {
+    '/customers': {
+      get: {
+        parameters: ListCustomers.Params;
+        responses: {
+          200: ListCustomers.Response200;
+        };
+      };
+    };
+    '/customers/{id}': {
+      delete: {
+        parameters: {
+          path: {
+            id: string;
+          };
+        };
+        responses: {
+          /**
+           * Deleted
+           */
+          204: unknown;
+          /**
+           * x
+           */
+          default: unknown;
+        };
+      };
+    };
+  }
+  export namespace ListCustomers {
+    export interface QueryParams {
+      ids?: string[];
+    }
+    export interface Params {
+      query?: QueryParams;
+    }
+    /**
+     * ok
+     */
+    export type Response200 = string[];
+  }
+export type Fetch = (
+  url: string,
+  init: { method: string; headers: { [name: string]: string }; body?: string }
+) => Promise<{ status: number; text(): Promise<string> }>;
+
+export interface ClientOptions {
+  baseUrl: string;
+  fetch?: Fetch;
+  headers?: { [name: string]: string };
+}
 
-    expect(swaggerToTS(swagger)).toBe(ts);
+export class ClientError extends Error {
+  status: number;
+  body: unknown;
+  constructor(status: number, body: unknown) {
+    super(\`Request failed with status \${status}\`);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// Query strings, form bodies and cookies, with arrays written as their collectionFormat says
+function encodeParams(
+  params: object = {},
+  formats: { [name: string]: string } = {},
+  separator = '&'
+): string {
+  const separators: { [format: string]: string } = { csv: ',', pipes: '|', ssv: ' ', tsv: '\\t' };
+  const values = params as { [name: string]: unknown };
+  const pairs: string[] = [];
+  Object.keys(values).forEach((name) => {
+    const value = values[name];
+    if (value === undefined || value === null) {
+      return;
+    }
+    let items: unknown[] = [value];
+    if (Array.isArray(value)) {
+      items = formats[name] === 'multi' ? value : [value.join(separators[formats[name]] || ',')];
+    }
+    items.forEach((item) => {
+      pairs.push(\`\${encodeURIComponent(name)}=\${encodeURIComponent(String(item))}\`);
+    });
+  });
+  return pairs.join(separator);
+}
+  export function createClient({
+    baseUrl,
+    fetch = (globalThis as unknown as { fetch: Fetch }).fetch,
+    headers = {},
+  }: ClientOptions) {
+async function request<T>(
+  method: string,
+  path: string,
+  params: {
+    path?: object;
+    query?: object;
+    header?: object;
+    cookie?: object;
+    formData?: object;
+    body?: unknown;
+  } = {},
+  formats: { [name: string]: string } = {}
+): Promise<T> {
+  const pathParams = (params.path || {}) as { [name: string]: unknown };
+  const url = \`\${baseUrl.replace(/\\/$/, '')}\${path.replace(/{([^}]+)}/g, (_, name: string) =>
+    encodeURIComponent(String(pathParams[name]))
+  )}\`;
+  const query = encodeParams(params.query, formats);
+  const requestHeaders: { [name: string]: string } = { ...headers };
+  const headerParams = (params.header || {}) as { [name: string]: unknown };
+  Object.keys(headerParams).forEach((name) => {
+    requestHeaders[name] = String(headerParams[name]);
+  });
+  const cookies = encodeParams(params.cookie, formats, '; ');
+  if (cookies) {
+    const { Cookie } = requestHeaders;
+    requestHeaders.Cookie = Cookie ? \`\${Cookie}; \${cookies}\` : cookies;
+  }
+  let body: string | undefined;
+  if (params.body !== undefined) {
+    body = JSON.stringify(params.body);
+    requestHeaders['Content-Type'] = 'application/json';
+  } else if (params.formData) {
+    body = encodeParams(params.formData, formats);
+    requestHeaders['Content-Type'] = 'application/x-www-form-urlencoded';
+  }
+
+  const response = await fetch(query ? \`\${url}?\${query}\` : url, {
+    method: method.toUpperCase(),
+    headers: requestHeaders,
+    body,
+  });
+  const text = await response.text();
+  let data: unknown = text;
+  try {
+    data = text ? JSON.parse(text) : undefined;
+  } catch (err) {
+    // not JSON, so it’s returned as text
+  }
+  if (response.status < 200 || response.status >= 300) {
+    throw new ClientError(response.status, data);
+  }
+  return data as T;
+}
+    return {
+      listCustomers: (
+        params?: ListCustomers.Params
+      ): Promise<ListCustomers.Response200> =>
+        request('get', '/customers', params, { ids: 'multi' }),
+      deleteCustomersId: (
+        params: paths['/customers/{id}']['delete']['parameters']
+      ): Promise<paths['/customers/{id}']['delete']['responses'][204]> =>
+        request('delete', '/customers/{id}', params),
+    };
+  }`,
+        'export namespace API'
+      );
+
+      expect(swaggerToTS(swagger, { client: true, wrapper: 'export namespace API' })).toBe(ts);
+    });
   });
 
-  describe('other output', () => {
-    it('skips top-level array definitions', () => {
-      const swagger: Swagger2 = {
+  describe('zod target', () => {
+    const swagger: Swagger2 = {
+      swagger: '2.0',
+      definitions: {
+        Category: {
+          properties: {
+            children: { items: { $ref: '#/definitions/Category' }, type: 'array' },
+            name: { type: 'string' },
+          },
+          required: ['name'],
+          type: 'object',
+        },
+        Named: {
+          additionalProperties: false,
+          properties: { name: { type: 'string' } },
+          required: ['name'],
+          type: 'object',
+        },
+        Pet: {
+          allOf: [
+            { $ref: '#/definitions/Named' },
+            {
+              properties: {
+                age: { type: 'integer', 'x-nullable': true },
+                kind: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+                status: { enum: ['available', 'sold', null], type: 'string' },
+                tags: { additionalProperties: { type: 'string' }, type: 'object' },
+              },
+              required: ['status'],
+            },
+          ],
+        },
+      },
+    };
+
+    it('writes zod schemas and their inferred types', () => {
+      const ts = prettier.format(
+        `${warningMessage}
+        import { z } from 'zod';
+        export type Category = { children?: Category[]; name: string };
+        export const CategorySchema: z.ZodType<Category> = z.object({
+          children: z.array(z.lazy(() => CategorySchema)).optional(),
+          name: z.string(),
+        });
+        export const NamedSchema = z.object({ name: z.string() }).strict();
+        export type Named = z.infer<typeof NamedSchema>;
+        export const PetSchema = NamedSchema.and(
+          z.object({
+            age: z.number().int().nullable().optional(),
+            kind: z.union([z.string(), z.number()]).optional(),
+            status: z.enum(['available', 'sold']).nullable(),
+            tags: z.record(z.string(), z.string()).optional(),
+          })
+        );
+        export type Pet = z.infer<typeof PetSchema>;`,
+        { parser: 'typescript', singleQuote: true }
+      );
+
+      expect(swaggerToTS(swagger, { target: 'zod' })).toBe(ts);
+    });
+
+    it('applies required to inline allOf members', () => {
+      const pair: Swagger2 = {
         swagger: '2.0',
         definitions: {
-          Colors: {
-            type: 'array',
-            items: { $ref: '#/definitions/Color' },
+          Pair: {
+            allOf: [
+              { properties: { a: { type: 'string' } } },
+              { properties: { b: { type: 'number' } } },
+            ],
+            required: ['a'],
           },
-          Color: { type: 'string' },
         },
       };
 
-      const ts = format('');
+      const ts = prettier.format(
+        `${warningMessage}
+        import { z } from 'zod';
+        export const PairSchema = z
+          .object({ a: z.string() })
+          .and(z.object({ b: z.number().optional() }));
+        export type Pair = z.infer<typeof PairSchema>;`,
+        { parser: 'typescript', singleQuote: true }
+      );
+
+      expect(swaggerToTS(pair, { target: 'zod' })).toBe(ts);
+    });
 
-      expect(swaggerToTS(swagger)).toBe(ts);
+    it('writes out the types of recursive schemas', () => {
+      const recursive: Swagger2 = {
+        swagger: '2.0',
+        definitions: {
+          Node: {
+            additionalProperties: { type: 'number' },
+            properties: {
+              next: { $ref: '#/definitions/Node', 'x-nullable': true },
+              value: { oneOf: [{ $ref: '#/definitions/Tree' }, { type: 'boolean' }] },
+            },
+            required: ['next'],
+            type: 'object',
+          },
+          Tree: {
+            oneOf: [{ type: 'string' }, { items: { $ref: '#/definitions/Tree' }, type: 'array' }],
+          },
+        },
+      };
+
+      const output = swaggerToTS(recursive, { target: 'zod' });
+      expect(output).toContain(
+        'export type Node = { next: Node | null; value?: Tree | boolean } & {\n  [key: string]: number;\n};'
+      );
+      expect(output).toContain('export const NodeSchema: z.ZodType<Node> = z');
+      expect(output).toContain('export type Tree = string | Tree[];');
+      expect(output).toContain('export const TreeSchema: z.ZodType<Tree> = z.union([');
+      expect(output).not.toContain('any');
+    });
+  });
+
+  describe('naming option', () => {
+    const swagger: Swagger2 = {
+      swagger: '2.0',
+      definitions: {
+        user_profile: {
+          properties: {
+            display_name: { type: 'string' },
+            home_address: {
+              properties: { street_name: { type: 'string' } },
+              type: 'object',
+            },
+          },
+          type: 'object',
+        },
+      },
+    };
+
+    it('names types and properties separately', () => {
+      const ts = format(`
+      export interface UserProfile {
+        displayName?: string;
+        homeAddress?: UserProfileHomeAddress;
+      }
+      export interface UserProfileHomeAddress {
+        streetName?: string;
+      }`);
+
+      expect(swaggerToTS(swagger, { naming: { types: 'pascal', properties: 'camel' } })).toBe(ts);
+    });
+
+    it('accepts functions', () => {
+      const ts = format(`
+      export interface Api_user_profile {
+        DISPLAY_NAME?: string;
+        HOME_ADDRESS?: Api_user_profile_HOME_ADDRESS;
+      }
+      export interface Api_user_profile_HOME_ADDRESS {
+        STREET_NAME?: string;
+      }`);
+
+      const naming = {
+        types: (name: string): string => `Api_${name}`,
+        properties: (key: string): string => key.toUpperCase(),
+        nested: (parent: string, key: string): string => `${parent}_${key}`,
+      };
+      expect(swaggerToTS(swagger, { naming })).toBe(ts);
+    });
+
+    it('refuses unknown strategies', () => {
+      expect(() => swaggerToTS(swagger, { naming: { types: 'camel' as 'pascal' } })).toThrow(
+        'Unknown naming.types option "camel" (use keep, pascal or a function)'
+      );
     });
   });
 
@@ -715,6 +2851,26 @@ describe('Swagger 2 spec', () => {
 
       expect(swaggerToTS(swagger, { wrapper })).toBe(ts);
     });
+
+    it('refuses a declare wrapper for options that write runtime code', () => {
+      const swagger: Swagger2 = { swagger: '2.0', definitions: {} };
+      const runtimeOptions: [Swagger2Options, string][] = [
+        [{ enums: 'enum' }, 'enums: "enum"'],
+        [{ enums: 'const' }, 'enums: "const"'],
+        [{ converters: true }, 'converters'],
+        [{ guards: true }, 'guards'],
+        [{ mocks: true }, 'mocks'],
+        [{ client: true }, 'client'],
+        [{ target: 'zod', wrapper: 'declare namespace OpenAPI2' }, 'target: "zod"'],
+      ];
+      runtimeOptions.forEach(([options, name]) => {
+        expect(() => swaggerToTS(swagger, options)).toThrow(
+          `${name} can’t be used with a "declare namespace OpenAPI2" wrapper`
+        );
+        const exported = { ...options, wrapper: 'export namespace API' };
+        expect(() => swaggerToTS(swagger, exported)).not.toThrow();
+      });
+    });
   });
 
   describe('properties mapper', () => {
@@ -784,6 +2940,15 @@ describe('Swagger 2 spec', () => {
     });
   });
 
+  describe('stripe', () => {
+    it('generates output that type-checks', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const input = yaml.safeLoad(fs.readFileSync(path.resolve(__dirname, 'stripe.yaml'), 'UTF-8'));
+      expect(getTypeErrors(swaggerToTS(input))).toEqual([]);
+      warn.mockRestore();
+    });
+  });
+
   describe('snapshots', () => {
     // Basic snapshot test.
     // If changes are all good, run `npm run generate` to update (⚠️ This will cement your changes so be sure they’re 100% correct!)
@@ -0,0 +1,789 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import prettier from 'prettier';
+import ts from 'typescript';
+import swaggerToTS from '../../src';
+import { warningMessage } from '../../src/utils';
+import { OpenAPI3 } from '../../src/swagger-3';
+
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+
+// Let Prettier handle formatting, not the test expectations
+function format(spec: string, wrapper = 'declare namespace OpenAPI3'): string {
+  return prettier.format(
+    `${warningMessage}
+
+    ${wrapper} {
+      ${spec}
+    }
+    `,
+    {
+      parser: 'typescript',
+      singleQuote: true,
+    }
+  );
+}
+
+describe('OpenAPI 3 spec', () => {
+  describe('core OpenAPI types', () => {
+    it('string -> string', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            User: {
+              properties: {
+                email: { type: 'string' },
+              },
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface User {
+        email?: string;
+      }`);
+
+      expect(swaggerToTS(schema)).toBe(ts);
+    });
+
+    it('integer -> number', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            User: {
+              properties: {
+                age: { type: 'integer' },
+              },
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface User {
+        age?: number;
+      }`);
+
+      expect(swaggerToTS(schema)).toBe(ts);
+    });
+
+    it('boolean -> boolean', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            User: {
+              properties: {
+                active: { type: 'boolean' },
+              },
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface User {
+        active?: boolean;
+      }`);
+
+      expect(swaggerToTS(schema)).toBe(ts);
+    });
+
+    it('handles a spec with no components', () => {
+      expect(swaggerToTS({ openapi: '3.0.1' }, { warning: false })).toBe(
+        'declare namespace OpenAPI3 {}\n'
+      );
+    });
+  });
+
+  describe('complex structures', () => {
+    it('handles arrays of references', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            Team: {
+              properties: {
+                id: { type: 'string' },
+              },
+              type: 'object',
+            },
+            User: {
+              properties: {
+                teams: { type: 'array', items: { $ref: '#/components/schemas/Team' } },
+              },
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface User {
+        teams?: Team[];
+      }
+      export interface Team {
+        id?: string;
+      }`);
+
+      expect(swaggerToTS(schema)).toBe(ts);
+    });
+
+    it('handles nested objects', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            User: {
+              properties: {
+                remote_id: {
+                  type: 'object',
+                  properties: { id: { type: 'string' } },
+                },
+              },
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface User {
+        remote_id?: UserRemoteId;
+      }
+      export interface UserRemoteId {
+        id?: string;
+      }`);
+
+      expect(swaggerToTS(schema)).toBe(ts);
+    });
+
+    it('handles allOf', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            Admin: {
+              allOf: [
+                { $ref: '#/components/schemas/User' },
+                {
+                  properties: {
+                    rbac: { type: 'string' },
+                  },
+                  type: 'object',
+                },
+              ],
+              type: 'object',
+            },
+            User: {
+              properties: {
+                email: { type: 'string' },
+              },
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface User {
+        email?: string;
+      }
+      export interface Admin extends User {
+        rbac?: string;
+      }`);
+
+      expect(swaggerToTS(schema)).toBe(ts);
+    });
+
+    it('handles oneOf', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            Record: {
+              properties: {
+                rand: {
+                  oneOf: [{ type: 'string' }, { type: 'number' }],
+                },
+              },
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Record {
+        rand?: string | number;
+      }`);
+
+      expect(swaggerToTS(schema)).toBe(ts);
+    });
+
+    it('handles oneOf with a discriminator mapping', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            Cat: {
+              properties: { petType: { type: 'string' }, lives: { type: 'integer' } },
+              type: 'object',
+            },
+            Dog: {
+              properties: { petType: { type: 'string' }, packSize: { type: 'integer' } },
+              type: 'object',
+            },
+            Pet: {
+              oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }],
+              discriminator: {
+                propertyName: 'petType',
+                mapping: { cat: '#/components/schemas/Cat', dog: 'Dog' },
+              },
+            },
+            Owner: {
+              properties: {
+                pet: { $ref: '#/components/schemas/Pet' },
+              },
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export type Pet = (Cat & { petType: 'cat' }) | (Dog & { petType: 'dog' });
+      export interface Owner {
+        pet?: Pet;
+      }
+      export interface Dog {
+        petType?: string;
+        packSize?: number;
+      }
+      export interface Cat {
+        petType?: string;
+        lives?: number;
+      }`);
+
+      expect(swaggerToTS(schema)).toBe(ts);
+    });
+
+    it('handles enum', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            User: {
+              properties: {
+                role: { type: 'string', enum: ['user', 'admin'] },
+              },
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface User {
+        role?: 'user' | 'admin';
+      }`);
+
+      expect(swaggerToTS(schema)).toBe(ts);
+    });
+  });
+
+  describe('TS features', () => {
+    it('specifies required types', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            User: {
+              properties: {
+                username: { type: 'string' },
+              },
+              required: ['username'],
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface User {
+        username: string;
+      }`);
+
+      expect(swaggerToTS(schema)).toBe(ts);
+    });
+
+    it('appends null to nullable types', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            User: {
+              properties: {
+                deleted_at: { type: 'string', nullable: true },
+                friends: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/User', nullable: true },
+                },
+              },
+              required: ['deleted_at'],
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface User {
+        deleted_at: string | null;
+        friends?: (User | null)[];
+      }`);
+
+      expect(swaggerToTS(schema)).toBe(ts);
+    });
+
+    it('converts snake_case to camelCase if specified', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            User_Team: {
+              properties: {
+                id: { type: 'string' },
+              },
+              type: 'object',
+            },
+            User: {
+              properties: {
+                profile_image: { type: 'string' },
+                user_team: { $ref: '#/components/schemas/User_Team' },
+              },
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface UserTeam {
+        id?: string;
+      }
+      export interface User {
+        profileImage?: string;
+        userTeam?: UserTeam;
+      }`);
+
+      expect(swaggerToTS(schema, { camelcase: true })).toBe(ts);
+    });
+  });
+
+  describe('enums option', () => {
+    it('names enums, honoring x-enumNames', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            Priority: { type: 'integer', enum: [1, 2], 'x-enumNames': ['Low', 'High'] },
+            Ticket: {
+              properties: {
+                priority: { $ref: '#/components/schemas/Priority' },
+                tags: { type: 'array', items: { type: 'string', enum: ['new', 'old'] } },
+              },
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(
+        `
+      export interface Ticket {
+        priority?: Priority;
+        tags?: TicketTags[];
+      }
+      export enum TicketTags {
+        New = 'new',
+        Old = 'old',
+      }
+      export enum Priority {
+        Low = 1,
+        High = 2,
+      }`,
+        'export namespace API'
+      );
+
+      expect(swaggerToTS(schema, { enums: 'enum', wrapper: 'export namespace API' })).toBe(ts);
+    });
+  });
+
+  describe('paths', () => {
+    it('types parameters, request bodies and responses', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            Customer: {
+              properties: { id: { type: 'string' } },
+              type: 'object',
+            },
+          },
+          requestBodies: {
+            Customer: {
+              required: true,
+              content: {
+                'application/json': { schema: { $ref: '#/components/schemas/Customer' } },
+              },
+            },
+          },
+        },
+        paths: {
+          '/customers/{id}': {
+            parameters: [{ name: 'id', in: 'path', schema: { type: 'string' } }],
+            get: {
+              parameters: [{ name: 'expand', in: 'query', schema: { type: 'boolean' } }],
+              responses: {
+                200: {
+                  description: 'OK',
+                  content: {
+                    'application/json': { schema: { $ref: '#/components/schemas/Customer' } },
+                  },
+                },
+              },
+            },
+            put: {
+              requestBody: { $ref: '#/components/requestBodies/Customer' },
+              responses: {
+                204: { description: 'Updated' },
+              },
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface Customer {
+        id?: string;
+      }
+      export interface paths {
+        '/customers/{id}': {
+          get: {
+            parameters: {
+              path: {
+                id: string;
+              };
+              query?: {
+                expand?: boolean;
+              };
+            };
+            responses: {
+              /**
+               * OK
+               */
+              200: Customer;
+            };
+          };
+          put: {
+            parameters: {
+              path: {
+                id: string;
+              };
+              body: Customer;
+            };
+            responses: {
+              /**
+               * Updated
+               */
+              204: unknown;
+            };
+          };
+        };
+      }`);
+
+      expect(swaggerToTS(schema)).toBe(ts);
+    });
+  });
+
+  describe('operations', () => {
+    it('groups operations with an operationId into their own namespace', () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        paths: {
+          '/customers/{id}': {
+            get: {
+              operationId: 'GetCustomer',
+              parameters: [
+                { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+                { name: 'session', in: 'cookie', schema: { type: 'string' } },
+              ],
+              responses: {
+                default: { description: 'Anything' },
+              },
+            },
+          },
+        },
+      };
+
+      const ts = format(`
+      export interface paths {
+        '/customers/{id}': {
+          get: {
+            parameters: GetCustomer.Params;
+            responses: {
+              default: GetCustomer.ResponseDefault;
+            };
+          };
+        };
+      }
+      export namespace GetCustomer {
+        export interface PathParams {
+          id: string;
+        }
+        export interface CookieParams {
+          session?: string;
+        }
+        export interface Params {
+          path: PathParams;
+          cookie?: CookieParams;
+        }
+        /**
+         * Anything
+         */
+        export type ResponseDefault = unknown;
+      }`);
+
+      expect(swaggerToTS(schema)).toBe(ts);
+    });
+  });
+
+  describe('inputTypes option', () => {
+    const schema: OpenAPI3 = {
+      openapi: '3.0.1',
+      components: {
+        schemas: {
+          Customer: {
+            properties: {
+              email: { type: 'string' },
+              id: { type: 'string', readOnly: true },
+              password: { type: 'string', writeOnly: true },
+            },
+            required: ['email', 'id'],
+            type: 'object',
+          },
+          Order: {
+            properties: {
+              customer: { $ref: '#/components/schemas/Customer' },
+            },
+            type: 'object',
+          },
+        },
+      },
+      paths: {
+        '/orders': {
+          post: {
+            requestBody: {
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/Order' } } },
+            },
+            responses: {
+              201: {
+                description: 'Created',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/Order' } } },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    it('writes input variants without readOnly properties', () => {
+      const ts = format(`
+      export interface Order {
+        customer?: Customer;
+      }
+      export interface OrderInput {
+        customer?: CustomerInput;
+      }
+      export interface CustomerInput {
+        email: string;
+        password?: string;
+      }
+      export interface Customer {
+        email: string;
+        id: string;
+      }
+      export interface paths {
+        '/orders': {
+          post: {
+            parameters: {
+              body?: OrderInput;
+            };
+            responses: {
+              /**
+               * Created
+               */
+              201: Order;
+            };
+          };
+        };
+      }`);
+
+      expect(swaggerToTS(schema, { inputTypes: true })).toBe(ts);
+    });
+
+    it('ignores readOnly and writeOnly otherwise', () => {
+      expect(swaggerToTS(schema)).not.toContain('Input');
+      expect(swaggerToTS(schema)).toContain('password?: string;');
+    });
+  });
+
+  describe('client option', () => {
+    // Compiles the generated client (written without a wrapper, as a module) and loads it
+    function loadClient(source: string): { [name: string]: Function } {
+      const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2017 },
+      });
+      const exports = {};
+      new Function('exports', outputText)(exports);
+      return exports;
+    }
+
+    it('sends every kind of parameter and rejects with a ClientError', async () => {
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        paths: {
+          '/customers/{id}': {
+            post: {
+              operationId: 'updateCustomer',
+              parameters: [
+                { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+                {
+                  name: 'expand',
+                  in: 'query',
+                  schema: { items: { type: 'string' }, type: 'array' },
+                },
+                {
+                  name: 'tags',
+                  in: 'query',
+                  schema: { items: { type: 'string' }, type: 'array' },
+                  style: 'pipeDelimited',
+                },
+                { name: 'Idempotency-Key', in: 'header', schema: { type: 'string' } },
+                { name: 'session', in: 'cookie', schema: { type: 'string' } },
+              ],
+              requestBody: {
+                content: {
+                  'application/json': {
+                    schema: { properties: { name: { type: 'string' } }, type: 'object' },
+                  },
+                },
+              },
+              responses: { 200: { description: 'ok' }, 400: { description: 'Invalid' } },
+            },
+          },
+        },
+      };
+      const { ClientError, createClient } = loadClient(
+        swaggerToTS(schema, { client: true, wrapper: false })
+      );
+
+      const requests: [string, object][] = [];
+      let status = 200;
+      const fetch = (url: string, init: object) => {
+        requests.push([url, init]);
+        return Promise.resolve({ status, text: () => Promise.resolve('{"id":"cus 1"}') });
+      };
+      const client = createClient({
+        baseUrl: 'https://api.example.com/v1/',
+        fetch,
+        headers: { Authorization: 'Bearer key' },
+      });
+      const params = {
+        path: { id: 'cus 1' },
+        query: { expand: ['cards', 'plan'], tags: ['a', 'b'] },
+        header: { 'Idempotency-Key': 'key_1' },
+        cookie: { session: 'a;b' },
+        body: { name: 'Jane' },
+      };
+
+      await expect(client.updateCustomer(params)).resolves.toEqual({ id: 'cus 1' });
+      expect(requests).toEqual([
+        [
+          'https://api.example.com/v1/customers/cus%201?expand=cards&expand=plan&tags=a%7Cb',
+          {
+            method: 'POST',
+            headers: {
+              Authorization: 'Bearer key',
+              'Content-Type': 'application/json',
+              Cookie: 'session=a%3Bb',
+              'Idempotency-Key': 'key_1',
+            },
+            body: '{"name":"Jane"}',
+          },
+        ],
+      ]);
+
+      status = 400;
+      const error = await client.updateCustomer(params).catch((err: Error) => err);
+      expect(error).toBeInstanceOf(ClientError);
+      expect(error).toMatchObject({ status: 400, body: { id: 'cus 1' } });
+    });
+  });
+
+  describe('wrapper option', () => {
+    it('allows namespace wrappers', () => {
+      const wrapper = 'export namespace MyNamespace';
+
+      const schema: OpenAPI3 = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            Name: {
+              properties: {
+                first: { type: 'string' },
+              },
+              type: 'object',
+            },
+          },
+        },
+      };
+
+      const ts = format(
+        `
+      export interface Name {
+        first?: string;
+      }`,
+        wrapper
+      );
+
+      expect(swaggerToTS(schema, { wrapper })).toBe(ts);
+    });
+  });
+
+  describe('stripe', () => {
+    it('generates every component schema', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const input = yaml.safeLoad(fs.readFileSync(path.resolve(__dirname, 'stripe.yaml'), 'UTF-8'));
+      const output = swaggerToTS(input);
+      Object.keys(input.components.schemas).forEach((name) => {
+        expect(output).toMatch(
+          new RegExp(`export (interface|type) ${name.replace(/\./g, '_')}2? `)
+        );
+      });
+      // Both `issuing.card_pin` and `issuing_card_pin` exist
+      expect(warn).toHaveBeenCalledWith(
+        'issuing.card_pin would be named issuing_card_pin, which is already taken; using issuing_card_pin2 instead.'
+      );
+      warn.mockRestore();
+    });
+  });
+});